@@ -0,0 +1,335 @@
+/**
+ * Accelerometer gesture recognition
+ * Turns raw samples into shake, flip, tilt, double-tap and raise-to-look events
+ */
+
+import type { AccelerometerData } from '../types';
+import type { AccelerometerAPI } from './index';
+
+export type TiltDirection = 'left' | 'right' | 'forward' | 'back';
+
+export type Gesture =
+  | { type: 'shake'; intensity: number; timestamp: number }     // intensity: 0 to 1
+  | { type: 'flip'; face: 'up' | 'down'; timestamp: number }
+  | { type: 'tilt'; direction: TiltDirection; amount: number; timestamp: number }
+  | { type: 'tiltEnd'; direction: TiltDirection; timestamp: number }
+  | { type: 'doubleTap'; timestamp: number }
+  | { type: 'raiseToLook'; timestamp: number };
+
+export type GestureType = Gesture['type'];
+
+export type GestureEvents = {
+  [K in GestureType]: (gesture: Extract<Gesture, { type: K }>) => void;
+} & {
+  gesture: (gesture: Gesture) => void;   // Every recognized gesture
+};
+
+type GestureEvent = keyof GestureEvents;
+
+export interface GestureOptions {
+  frequency?: number;        // Accelerometer sampling frequency in Hz (default: 60)
+  cooldown?: number;         // Minimum time between two shakes, double taps or raises in ms (default: 1000)
+  shakeThreshold?: number;   // Change between samples that counts as a shake stroke (default: 0.5)
+  shakeCount?: number;       // Direction reversals needed for a shake (default: 3)
+  shakeWindow?: number;      // Time the reversals must happen within in ms (default: 800)
+  flipThreshold?: number;    // |z| beyond which the device is face up or down (default: 0.8)
+  flipHold?: number;         // Time the new face must be held in ms (default: 300)
+  tiltThreshold?: number;    // |x| or |y| beyond which the device is tilted (default: 0.5)
+  tiltHold?: number;         // Time a tilt must be held in ms (default: 500)
+  tapThreshold?: number;     // Change between samples that counts as a knock (default: 0.3)
+  tapWindow?: number;        // Maximum time between the two knocks in ms (default: 400)
+  tapMinInterval?: number;   // Minimum time between the two knocks in ms (default: 80)
+  tapQuiet?: number;         // Time without further knocks before a double tap is reported in ms (default: 150)
+  raiseFrom?: number;        // z below which the device is lowered, face down excluded (default: 0.2)
+  raiseTo?: number;          // z above which the screen faces the user (default: 0.6)
+  raiseWindow?: number;      // Maximum time from lowered to facing the user in ms (default: 1000)
+  raiseHold?: number;        // Time the raised pose must be held in ms (default: 200)
+}
+
+/**
+ * Recognizes gestures from accelerometer samples
+ */
+export class GestureRecognizer {
+  private listeners: Map<GestureEvent, Set<(...args: any[]) => void>> = new Map();
+  private options: GestureOptions = {};
+  private running = false;
+  private unsubscribe?: () => void;
+  private previous?: AccelerometerData;
+  private lastEmitted: Map<GestureType, number> = new Map();
+
+  // Shake
+  private lastStroke?: AccelerometerData;
+  private reversals: Array<{ time: number; strength: number }> = [];
+
+  // Flip
+  private face?: 'up' | 'down';
+  private faceCandidate?: { face: 'up' | 'down'; since: number };
+
+  // Tilt
+  private tiltCandidate?: { direction: TiltDirection; since: number };
+  private activeTilt?: TiltDirection;
+
+  // Double tap
+  private previousJerk = 0;
+  private lastTapAt?: number;
+  private doubleTapAt?: number;
+
+  // Raise to look
+  private loweredAt?: number;
+  private raisedSince?: number;
+
+  private readonly handleSample = (data: AccelerometerData) => {
+    this.process(data);
+  };
+
+  constructor(private accelerometer: AccelerometerAPI) {}
+
+  /**
+   * Start recognizing gestures from the accelerometer
+   * @param options Thresholds and timing (merged with earlier options)
+   */
+  start(options: GestureOptions = {}): void {
+    this.options = { ...this.options, ...options };
+    if (this.running) return;
+
+    this.running = true;
+    this.reset();
+    this.unsubscribe = this.accelerometer.subscribe(this.handleSample, { frequency: this.options.frequency ?? 60 });
+  }
+
+  /**
+   * Stop recognizing gestures
+   */
+  stop(): void {
+    if (!this.running) return;
+
+    this.running = false;
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  /**
+   * Check if gestures are being recognized
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Add a gesture listener
+   * @param event Gesture type, or 'gesture' for all gestures
+   * @param callback Gesture callback
+   */
+  on<E extends GestureEvent>(event: E, callback: GestureEvents[E]): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  /**
+   * Remove a gesture listener
+   * @param event Gesture type, or 'gesture'
+   * @param callback Callback to remove
+   */
+  off<E extends GestureEvent>(event: E, callback: GestureEvents[E]): void {
+    this.listeners.get(event)?.delete(callback);
+  }
+
+  /**
+   * Feed a sample to the recognizer
+   * Called for each accelerometer reading while running; also usable with recorded samples
+   * @param data Accelerometer reading
+   * @param timestamp Sample time in milliseconds (default: Date.now())
+   */
+  process(data: AccelerometerData, timestamp: number = Date.now()): void {
+    const previous = this.previous;
+    this.previous = data;
+
+    this.detectFlip(data, timestamp);
+    this.detectTilt(data, timestamp);
+    this.detectRaise(data, timestamp);
+    if (previous) {
+      const delta = { x: data.x - previous.x, y: data.y - previous.y, z: data.z - previous.z };
+      this.detectShake(delta, timestamp);
+      this.detectTap(Math.hypot(delta.x, delta.y, delta.z), timestamp);
+    }
+  }
+
+  /**
+   * Forget partial gestures and the current pose (e.g. after a pause in samples)
+   * The next settled face is a starting pose again, and an active tilt ends without a tiltEnd event
+   */
+  reset(): void {
+    this.previous = undefined;
+    this.lastStroke = undefined;
+    this.reversals = [];
+    this.face = undefined;
+    this.faceCandidate = undefined;
+    this.tiltCandidate = undefined;
+    this.activeTilt = undefined;
+    this.previousJerk = 0;
+    this.lastTapAt = undefined;
+    this.doubleTapAt = undefined;
+    this.loweredAt = undefined;
+    this.raisedSince = undefined;
+  }
+
+  private detectShake(delta: AccelerometerData, timestamp: number): void {
+    const strength = Math.hypot(delta.x, delta.y, delta.z);
+    if (strength < (this.options.shakeThreshold ?? 0.5)) return;
+
+    const shakeWindow = this.options.shakeWindow ?? 800;
+    this.reversals = this.reversals.filter(reversal => timestamp - reversal.time <= shakeWindow);
+
+    // A stroke against the previous one is a reversal
+    const last = this.lastStroke;
+    this.lastStroke = delta;
+    if (!last || last.x * delta.x + last.y * delta.y + last.z * delta.z >= 0) return;
+
+    this.reversals.push({ time: timestamp, strength });
+    if (this.reversals.length < (this.options.shakeCount ?? 3)) return;
+
+    const average = this.reversals.reduce((sum, reversal) => sum + reversal.strength, 0) / this.reversals.length;
+    this.reversals = [];
+    this.lastTapAt = undefined;
+    this.doubleTapAt = undefined;
+    // Strokes can be at most 2 per axis apart, so scale the average into 0..1
+    this.emit({ type: 'shake', intensity: Math.min(1, average / 2), timestamp });
+  }
+
+  private detectFlip(data: AccelerometerData, timestamp: number): void {
+    const threshold = this.options.flipThreshold ?? 0.8;
+    const face = data.z > threshold ? 'up' : data.z < -threshold ? 'down' : undefined;
+    if (!face) {
+      this.faceCandidate = undefined;
+      return;
+    }
+
+    if (this.faceCandidate?.face !== face) {
+      this.faceCandidate = { face, since: timestamp };
+    }
+    if (face === this.face || timestamp - this.faceCandidate.since < (this.options.flipHold ?? 300)) return;
+
+    // The first settled face is the starting pose, not a flip
+    const initial = this.face === undefined;
+    this.face = face;
+    if (!initial) this.emit({ type: 'flip', face, timestamp });
+  }
+
+  private detectTilt(data: AccelerometerData, timestamp: number): void {
+    const threshold = this.options.tiltThreshold ?? 0.5;
+
+    // Hysteresis: an active tilt ends a little below the threshold that started it
+    if (this.activeTilt && this.tiltAmount(data, this.activeTilt) >= threshold * 0.8) return;
+    if (this.activeTilt) {
+      this.emit({ type: 'tiltEnd', direction: this.activeTilt, timestamp });
+      this.activeTilt = undefined;
+    }
+
+    const direction = this.tiltDirection(data, threshold);
+    if (!direction) {
+      this.tiltCandidate = undefined;
+      return;
+    }
+    if (this.tiltCandidate?.direction !== direction) {
+      this.tiltCandidate = { direction, since: timestamp };
+    }
+    if (timestamp - this.tiltCandidate.since < (this.options.tiltHold ?? 500)) return;
+
+    this.activeTilt = direction;
+    this.tiltCandidate = undefined;
+    this.emit({ type: 'tilt', direction, amount: this.tiltAmount(data, direction), timestamp });
+  }
+
+  private detectTap(jerk: number, timestamp: number): void {
+    const threshold = this.options.tapThreshold ?? 0.3;
+    const isKnock = jerk >= threshold && this.previousJerk < threshold;
+    this.previousJerk = jerk;
+
+    if (this.doubleTapAt !== undefined) {
+      if (isKnock) {
+        // A third knock means this was not a double tap
+        this.doubleTapAt = undefined;
+        this.lastTapAt = undefined;
+        return;
+      }
+      if (timestamp - this.doubleTapAt >= (this.options.tapQuiet ?? 150)) {
+        this.doubleTapAt = undefined;
+        this.emit({ type: 'doubleTap', timestamp });
+      }
+      return;
+    }
+    if (!isKnock) return;
+
+    const interval = this.lastTapAt === undefined ? Infinity : timestamp - this.lastTapAt;
+    if (interval >= (this.options.tapMinInterval ?? 80) && interval <= (this.options.tapWindow ?? 400)) {
+      this.lastTapAt = undefined;
+      this.doubleTapAt = timestamp;
+    } else {
+      this.lastTapAt = timestamp;
+    }
+  }
+
+  private detectRaise(data: AccelerometerData, timestamp: number): void {
+    if (data.z < (this.options.raiseFrom ?? 0.2)) {
+      // Turning over from face down is a flip, not a raise
+      const faceDown = data.z < -(this.options.flipThreshold ?? 0.8);
+      this.loweredAt = faceDown ? undefined : timestamp;
+      this.raisedSince = undefined;
+      return;
+    }
+    if (data.z < (this.options.raiseTo ?? 0.6) || this.loweredAt === undefined) {
+      this.raisedSince = undefined;
+      return;
+    }
+
+    this.raisedSince ??= timestamp;
+    if (this.raisedSince - this.loweredAt > (this.options.raiseWindow ?? 1000)) {
+      this.loweredAt = undefined;
+      this.raisedSince = undefined;
+      return;
+    }
+    if (timestamp - this.raisedSince >= (this.options.raiseHold ?? 200)) {
+      this.loweredAt = undefined;
+      this.raisedSince = undefined;
+      this.emit({ type: 'raiseToLook', timestamp });
+    }
+  }
+
+  private tiltDirection(data: AccelerometerData, threshold: number): TiltDirection | undefined {
+    if (Math.max(Math.abs(data.x), Math.abs(data.y)) < threshold) return undefined;
+    if (Math.abs(data.x) >= Math.abs(data.y)) {
+      return data.x > 0 ? 'right' : 'left';
+    }
+    return data.y > 0 ? 'forward' : 'back';
+  }
+
+  private tiltAmount(data: AccelerometerData, direction: TiltDirection): number {
+    switch (direction) {
+      case 'right': return data.x;
+      case 'left': return -data.x;
+      case 'forward': return data.y;
+      case 'back': return -data.y;
+    }
+  }
+
+  private emit(gesture: Gesture): void {
+    // Flips and tilts are debounced by their hold times; the cooldown applies to one-off gestures
+    if (gesture.type === 'shake' || gesture.type === 'doubleTap' || gesture.type === 'raiseToLook') {
+      const last = this.lastEmitted.get(gesture.type);
+      if (last !== undefined && gesture.timestamp - last < (this.options.cooldown ?? 1000)) return;
+      this.lastEmitted.set(gesture.type, gesture.timestamp);
+    }
+
+    for (const event of [gesture.type, 'gesture'] as GestureEvent[]) {
+      this.listeners.get(event)?.forEach(callback => {
+        try {
+          callback(gesture);
+        } catch (error) {
+          console.error(`Error in ${event} gesture listener:`, error);
+        }
+      });
+    }
+  }
+}
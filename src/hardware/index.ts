@@ -4,10 +4,37 @@
  */
 
 import type { AccelerometerData, AccelerometerOptions, TouchEvent, HardwareEventType } from '../types';
+import { GestureRecognizer } from './gestures';
+import { MotionProcessor } from './motion';
+import { ScrollWheel } from './scroll-wheel';
+import { SideButtonPatterns } from './side-button';
+import type { SideButtonPattern, SideButtonPatternEvents, SideButtonPatternOptions } from './side-button';
+import { storage } from '../storage';
+
+export interface AccelerometerSubscribeOptions {
+  frequency?: number;      // Delivery rate in Hz for this subscriber (default: every host sample)
+}
+
+interface AccelerometerSubscriber {
+  callback: (data: AccelerometerData) => void;
+  frequency?: number;
+  due: number;
+}
 
 export class AccelerometerAPI {
-  private isListening = false;
-  private currentCallback?: (data: AccelerometerData) => void;
+  private subscribers: Set<AccelerometerSubscriber> = new Set();
+  private observers: Set<(data: AccelerometerData) => void> = new Set();
+  private hostRunning = false;
+  private hostFrequency?: number;
+  private legacyUnsubscribe?: () => void;
+
+  private readonly handleSample = (data: AccelerometerData) => {
+    this.dispatch(data);
+  };
+
+  private readonly handleVisibility = () => {
+    this.updateHost();
+  };
 
   /**
    * Check if accelerometer is available on the device
@@ -17,39 +44,131 @@ export class AccelerometerAPI {
   }
 
   /**
-   * Start receiving accelerometer data
+   * Receive accelerometer data alongside other listeners
+   * The sensor starts with the first subscriber and stops with the last, runs at the highest
+   * requested frequency, and pauses while the page is hidden
    * @param callback Function to handle accelerometer data
-   * @param options Configuration options including frequency
+   * @param options Delivery frequency for this subscriber
+   * @returns Function that removes the subscription
    */
-  start(callback: (data: AccelerometerData) => void, options?: AccelerometerOptions): void {
-    if (this.isListening) {
-      this.stop();
+  subscribe(callback: (data: AccelerometerData) => void, options: AccelerometerSubscribeOptions = {}): () => void {
+    const subscriber: AccelerometerSubscriber = { callback, frequency: options.frequency, due: 0 };
+    if (this.subscribers.size === 0 && typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibility);
     }
+    this.subscribers.add(subscriber);
+    this.updateHost();
 
-    this.currentCallback = callback;
-    this.isListening = true;
+    return () => {
+      if (!this.subscribers.delete(subscriber)) return;
+      if (this.subscribers.size === 0 && typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', this.handleVisibility);
+      }
+      this.updateHost();
+    };
+  }
 
-    if (window.creationSensors?.accelerometer) {
-      window.creationSensors.accelerometer.start(callback, options);
-    }
+  /**
+   * Watch every sample the host delivers without subscribing
+   * Observers don't start the sensor or change its frequency (used by BridgeRecorder)
+   * @param callback Function to handle accelerometer data
+   * @returns Function that removes the observer
+   */
+  observe(callback: (data: AccelerometerData) => void): () => void {
+    this.observers.add(callback);
+    return () => {
+      this.observers.delete(callback);
+    };
   }
 
   /**
-   * Stop receiving accelerometer data
+   * Start receiving accelerometer data
+   * Replaces the callback of an earlier start(); use subscribe() to listen alongside others
+   * @param callback Function to handle accelerometer data
+   * @param options Configuration options including frequency
+   */
+  start(callback: (data: AccelerometerData) => void, options?: AccelerometerOptions): void {
+    this.legacyUnsubscribe?.();
+    this.legacyUnsubscribe = this.subscribe(callback, options);
+  }
+
+  /**
+   * Stop receiving accelerometer data started with start()
+   * Subscriptions made with subscribe() keep running
    */
   stop(): void {
-    if (this.isListening && window.creationSensors?.accelerometer) {
-      window.creationSensors.accelerometer.stop();
-      this.isListening = false;
-      this.currentCallback = undefined;
-    }
+    this.legacyUnsubscribe?.();
+    this.legacyUnsubscribe = undefined;
   }
 
   /**
    * Check if currently listening for accelerometer data
    */
   isActive(): boolean {
-    return this.isListening;
+    return this.subscribers.size > 0;
+  }
+
+  /**
+   * Number of active subscriptions (including start())
+   */
+  getSubscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Start, restart or stop the host sensor to match the subscribers and page visibility
+   */
+  private updateHost(): void {
+    const sensor = window.creationSensors?.accelerometer;
+    const hidden = typeof document !== 'undefined' && document.visibilityState === 'hidden';
+    const wanted = this.subscribers.size > 0 && !hidden;
+
+    const frequencies = [...this.subscribers]
+      .map(subscriber => subscriber.frequency)
+      .filter((frequency): frequency is number => typeof frequency === 'number' && frequency > 0);
+    const frequency = frequencies.length > 0 ? Math.max(...frequencies) : undefined;
+
+    if (this.hostRunning && (!wanted || frequency !== this.hostFrequency)) {
+      sensor?.stop();
+      this.hostRunning = false;
+    }
+    if (wanted && !this.hostRunning && sensor) {
+      this.subscribers.forEach(subscriber => subscriber.due = 0);
+      sensor.start(this.handleSample, frequency !== undefined ? { frequency } : undefined);
+      this.hostRunning = true;
+      this.hostFrequency = frequency;
+    }
+  }
+
+  /**
+   * Deliver a sample, skipping it for subscribers that asked for a lower frequency
+   */
+  private dispatch(data: AccelerometerData): void {
+    [...this.observers].forEach(observer => {
+      try {
+        observer(data);
+      } catch (error) {
+        console.error('Error in accelerometer observer:', error);
+      }
+    });
+
+    const now = Date.now();
+    // Allow half a host interval of jitter so slower subscribers don't drift a sample late
+    const slack = this.hostFrequency ? 500 / this.hostFrequency : 0;
+
+    [...this.subscribers].forEach(subscriber => {
+      if (subscriber.frequency && subscriber.frequency > 0) {
+        if (now + slack < subscriber.due) return;
+        const interval = 1000 / subscriber.frequency;
+        subscriber.due = subscriber.due + interval > now ? subscriber.due + interval : now + interval;
+      }
+
+      try {
+        subscriber.callback(data);
+      } catch (error) {
+        console.error('Error in accelerometer subscriber:', error);
+      }
+    });
   }
 }
 
@@ -107,7 +226,11 @@ export class TouchAPI {
 }
 
 export class HardwareEvents {
-  private listeners: Map<HardwareEventType, Set<() => void>> = new Map();
+  private listeners: Map<HardwareEventType | SideButtonPattern, Set<(...args: any[]) => void>> = new Map();
+  private patterns = new SideButtonPatterns(
+    (event, ...args) => this.emit(event, ...args),
+    event => (this.listeners.get(event)?.size ?? 0) > 0
+  );
 
   constructor() {
     this.initializeEventListeners();
@@ -115,10 +238,14 @@ export class HardwareEvents {
 
   /**
    * Add event listener for hardware button events
+   * Side button patterns (singleClick, doubleClick, tripleClick, hold, holdEnd, holdScroll)
+   * are recognized from the raw events
    * @param event Event type to listen for
    * @param callback Function to call when event occurs
    */
-  on(event: HardwareEventType, callback: () => void): void {
+  on(event: HardwareEventType, callback: () => void): void;
+  on<E extends SideButtonPattern>(event: E, callback: SideButtonPatternEvents[E]): void;
+  on(event: HardwareEventType | SideButtonPattern, callback: (...args: any[]) => void): void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, new Set());
     }
@@ -130,7 +257,9 @@ export class HardwareEvents {
    * @param event Event type
    * @param callback Function to remove
    */
-  off(event: HardwareEventType, callback: () => void): void {
+  off(event: HardwareEventType, callback: () => void): void;
+  off<E extends SideButtonPattern>(event: E, callback: SideButtonPatternEvents[E]): void;
+  off(event: HardwareEventType | SideButtonPattern, callback: (...args: any[]) => void): void {
     const callbacks = this.listeners.get(event);
     if (callbacks) {
       callbacks.delete(callback);
@@ -141,7 +270,7 @@ export class HardwareEvents {
    * Remove all listeners for an event type
    * @param event Event type to clear
    */
-  removeAllListeners(event?: HardwareEventType): void {
+  removeAllListeners(event?: HardwareEventType | SideButtonPattern): void {
     if (event) {
       this.listeners.delete(event);
     } else {
@@ -149,6 +278,21 @@ export class HardwareEvents {
     }
   }
 
+  /**
+   * Configure side button pattern recognition
+   * @param options Click window and hold thresholds
+   */
+  configureSideButton(options: SideButtonPatternOptions): void {
+    this.patterns.configure(options);
+  }
+
+  /**
+   * Check if the side button is held (between longPressStart and longPressEnd)
+   */
+  isSideButtonHeld(): boolean {
+    return this.patterns.isHeld();
+  }
+
   private initializeEventListeners(): void {
     // Only initialize in browser environment
     if (typeof window === 'undefined') return;
@@ -156,30 +300,35 @@ export class HardwareEvents {
     // Side button (PTT) events
     window.addEventListener('sideClick', () => {
       this.emit('sideClick');
+      this.patterns.click();
     });
 
     window.addEventListener('longPressStart', () => {
       this.emit('longPressStart');
+      this.patterns.pressStart();
     });
 
     window.addEventListener('longPressEnd', () => {
       this.emit('longPressEnd');
+      this.patterns.pressEnd();
     });
 
     // Scroll wheel events
     window.addEventListener('scrollUp', () => {
       this.emit('scrollUp');
+      this.patterns.scroll('up');
     });
 
     window.addEventListener('scrollDown', () => {
       this.emit('scrollDown');
+      this.patterns.scroll('down');
     });
   }
 
-  private emit(event: HardwareEventType): void {
+  private emit(event: HardwareEventType | SideButtonPattern, ...args: any[]): void {
     const callbacks = this.listeners.get(event);
     if (callbacks) {
-      callbacks.forEach(callback => callback());
+      callbacks.forEach(callback => callback(...args));
     }
   }
 }
@@ -188,7 +337,30 @@ export class HardwareEvents {
 export const accelerometer = new AccelerometerAPI();
 export const touch = new TouchAPI();
 export const hardwareEvents = new HardwareEvents();
+export const gestures = new GestureRecognizer(accelerometer);
+export const motion = new MotionProcessor(accelerometer, () => storage.plain);
+export const scrollWheel = new ScrollWheel(hardwareEvents);
 
 // Re-export device controls
 export { DeviceControls, deviceControls } from './device-controls';
-export type { DeviceControlsOptions, ScrollWheelData, SideButtonHandler, ScrollWheelHandler } from './device-controls';
\ No newline at end of file
+export type { DeviceControlsOptions, ScrollWheelData, SideButtonHandler, ScrollWheelHandler } from './device-controls';
+export { GestureRecognizer } from './gestures';
+export type { Gesture, GestureType, GestureEvents, GestureOptions, TiltDirection } from './gestures';
+export { MotionProcessor, MotionMath, LowPassFilter, HighPassFilter, Resampler } from './motion';
+export type {
+  Orientation,
+  ProcessedAccelerometerData,
+  AccelerometerCalibrationData,
+  MotionProcessorOptions,
+  CalibrationOptions
+} from './motion';
+export { ScrollWheel } from './scroll-wheel';
+export type { AccelerationCurve, ScrollWheelOptions, WheelMotion, WheelStep, ScrollWheelEvents } from './scroll-wheel';
+export { SideButtonPatterns } from './side-button';
+export type {
+  SideButtonPattern,
+  SideButtonPatternEvents,
+  SideButtonPatternOptions,
+  HoldEvent,
+  HoldScrollEvent
+} from './side-button';
@@ -0,0 +1,406 @@
+/**
+ * Accelerometer signal processing
+ * Filtering, gravity separation, pitch/roll angles, calibration and resampling
+ */
+
+import type { AccelerometerData } from '../types';
+import type { AccelerometerAPI } from './index';
+import type { StorageWrapper } from '../storage';
+
+export interface Orientation {
+  pitch: number;             // Degrees, positive = tilted forward
+  roll: number;              // Degrees, positive = tilted right
+}
+
+export interface ProcessedAccelerometerData extends AccelerometerData, Orientation {
+  gravity: AccelerometerData;    // Slowly changing part of the reading
+  linear: AccelerometerData;     // Reading with gravity removed (device movement)
+  timestamp: number;
+}
+
+export interface AccelerometerCalibrationData {
+  offsets: AccelerometerData;    // Subtracted from every reading
+  calibratedAt: number;
+}
+
+export interface MotionProcessorOptions {
+  frequency?: number;        // Requested host sampling frequency in Hz (default: 60)
+  rate?: number;             // Output rate in Hz, regardless of the rate the host delivers (default: frequency)
+  smoothing?: number;        // Low-pass cutoff in Hz applied to readings, 0 to disable (default: 0)
+  gravityCutoff?: number;    // High-pass cutoff in Hz separating movement from gravity (default: 0.5)
+  calibrated?: boolean;      // Apply the stored calibration (default: true)
+}
+
+export interface CalibrationOptions {
+  duration?: number;         // Time to record the neutral pose in ms (default: 1000)
+  reference?: AccelerometerData;  // Reading the neutral pose should produce (default: flat, { x: 0, y: 0, z: 1 })
+}
+
+const CALIBRATION_KEY = 'accelerometer_calibration';
+
+/**
+ * Orientation and vector helpers for accelerometer readings
+ */
+export class MotionMath {
+  /**
+   * Pitch and roll from a reading
+   * @param data Accelerometer reading
+   */
+  static orientation(data: AccelerometerData): Orientation {
+    const toDegrees = 180 / Math.PI;
+    return {
+      pitch: Math.atan2(data.y, Math.hypot(data.x, data.z)) * toDegrees,
+      roll: Math.atan2(data.x, Math.hypot(data.y, data.z)) * toDegrees
+    };
+  }
+
+  /**
+   * Length of a reading (about 1 when the device is still)
+   * @param data Accelerometer reading
+   */
+  static magnitude(data: AccelerometerData): number {
+    return Math.hypot(data.x, data.y, data.z);
+  }
+
+  /**
+   * Component-wise difference
+   */
+  static subtract(a: AccelerometerData, b: AccelerometerData): AccelerometerData {
+    return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+  }
+
+  /**
+   * Linear interpolation between two readings
+   * @param t Position between a (0) and b (1)
+   */
+  static lerp(a: AccelerometerData, b: AccelerometerData, t: number): AccelerometerData {
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t };
+  }
+}
+
+/**
+ * First-order low-pass filter for readings
+ * Uses the time between samples, so it behaves the same at any sampling rate
+ */
+export class LowPassFilter {
+  private value?: AccelerometerData;
+  private lastTime?: number;
+
+  /**
+   * @param cutoff Cutoff frequency in Hz
+   */
+  constructor(private cutoff: number) {}
+
+  /**
+   * Filter a reading
+   * @param data Accelerometer reading
+   * @param timestamp Sample time in milliseconds (default: Date.now())
+   */
+  apply(data: AccelerometerData, timestamp: number = Date.now()): AccelerometerData {
+    if (!this.value || this.lastTime === undefined) {
+      this.value = { ...data };
+    } else {
+      const dt = Math.max(0, timestamp - this.lastTime) / 1000;
+      const rc = 1 / (2 * Math.PI * this.cutoff);
+      this.value = MotionMath.lerp(this.value, data, dt / (rc + dt));
+    }
+    this.lastTime = timestamp;
+    return { ...this.value };
+  }
+
+  /**
+   * Forget previous readings
+   */
+  reset(): void {
+    this.value = undefined;
+    this.lastTime = undefined;
+  }
+}
+
+/**
+ * First-order high-pass filter for readings (keeps quick changes, removes the steady part)
+ */
+export class HighPassFilter {
+  private value: AccelerometerData = { x: 0, y: 0, z: 0 };
+  private input?: AccelerometerData;
+  private lastTime?: number;
+
+  /**
+   * @param cutoff Cutoff frequency in Hz
+   */
+  constructor(private cutoff: number) {}
+
+  /**
+   * Filter a reading
+   * @param data Accelerometer reading
+   * @param timestamp Sample time in milliseconds (default: Date.now())
+   */
+  apply(data: AccelerometerData, timestamp: number = Date.now()): AccelerometerData {
+    if (this.input && this.lastTime !== undefined) {
+      const dt = Math.max(0, timestamp - this.lastTime) / 1000;
+      const rc = 1 / (2 * Math.PI * this.cutoff);
+      const a = rc / (rc + dt);
+      this.value = {
+        x: a * (this.value.x + data.x - this.input.x),
+        y: a * (this.value.y + data.y - this.input.y),
+        z: a * (this.value.z + data.z - this.input.z)
+      };
+    }
+    this.input = { ...data };
+    this.lastTime = timestamp;
+    return { ...this.value };
+  }
+
+  /**
+   * Forget previous readings
+   */
+  reset(): void {
+    this.value = { x: 0, y: 0, z: 0 };
+    this.input = undefined;
+    this.lastTime = undefined;
+  }
+}
+
+/**
+ * Delivers readings at a steady rate from irregular input
+ * Output lags the input by one output interval so it can interpolate between readings,
+ * and pauses once no reading has arrived for about two input intervals
+ */
+export class Resampler {
+  private samples: Array<{ data: AccelerometerData; time: number }> = [];
+  private inputInterval?: number;
+  private timer?: ReturnType<typeof setInterval>;
+
+  /**
+   * @param rate Output rate in Hz
+   * @param callback Receives each resampled reading and its time
+   */
+  constructor(private rate: number, private callback: (data: AccelerometerData, timestamp: number) => void) {}
+
+  /**
+   * Add an input reading
+   * @param data Accelerometer reading
+   * @param timestamp Sample time in milliseconds (default: Date.now())
+   */
+  push(data: AccelerometerData, timestamp: number = Date.now()): void {
+    const last = this.samples[this.samples.length - 1];
+    if (last && timestamp > last.time) this.inputInterval = timestamp - last.time;
+
+    this.samples.push({ data, time: timestamp });
+    // Two readings older than the output time are enough to interpolate
+    const keepAfter = timestamp - 2000 / this.rate;
+    while (this.samples.length > 2 && this.samples[1].time < keepAfter) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Start emitting readings
+   */
+  start(): void {
+    if (this.timer !== undefined) return;
+    this.timer = setInterval(() => this.tick(Date.now()), 1000 / this.rate);
+  }
+
+  /**
+   * Stop emitting and forget buffered readings
+   */
+  stop(): void {
+    if (this.timer !== undefined) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.samples = [];
+    this.inputInterval = undefined;
+  }
+
+  /**
+   * Emit the reading for a point in time
+   * Called by the timer; exposed for driving the resampler from recorded samples
+   * Nothing is emitted while input has stopped, so a paused host doesn't repeat its last reading
+   * @param now Current time in milliseconds
+   */
+  tick(now: number): void {
+    if (this.samples.length === 0) return;
+
+    const time = now - 1000 / this.rate;
+    const latest = this.samples[this.samples.length - 1].time;
+    if (time - latest > 2 * (this.inputInterval ?? 1000 / this.rate)) return;
+
+    const after = this.samples.findIndex(sample => sample.time >= time);
+    let data: AccelerometerData;
+    if (after === -1) {
+      data = this.samples[this.samples.length - 1].data;
+    } else if (after === 0) {
+      data = this.samples[0].data;
+    } else {
+      const a = this.samples[after - 1];
+      const b = this.samples[after];
+      data = MotionMath.lerp(a.data, b.data, b.time === a.time ? 1 : (time - a.time) / (b.time - a.time));
+    }
+    this.callback({ ...data }, time);
+  }
+}
+
+/**
+ * Calibrated, filtered and resampled accelerometer readings with orientation
+ */
+export class MotionProcessor {
+  private callback?: (data: ProcessedAccelerometerData) => void;
+  private options: MotionProcessorOptions = {};
+  private running = false;
+  private unsubscribe?: () => void;
+  private resampler?: Resampler;
+  private smoothing?: LowPassFilter;
+  private linear?: HighPassFilter;
+  private calibration: AccelerometerCalibrationData | null = null;
+  private calibrationLoad?: Promise<AccelerometerCalibrationData | null>;
+
+  private readonly handleSample = (data: AccelerometerData) => {
+    this.resampler?.push(data);
+  };
+
+  constructor(private accelerometer: AccelerometerAPI, private storage: () => StorageWrapper) {}
+
+  /**
+   * Start receiving processed readings
+   * The stored calibration is loaded before the first reading is delivered
+   * @param callback Receives each processed reading
+   * @param options Rates, filtering and calibration
+   */
+  async start(callback: (data: ProcessedAccelerometerData) => void, options: MotionProcessorOptions = {}): Promise<void> {
+    this.stop();
+    this.callback = callback;
+    this.options = options;
+    this.running = true;
+
+    if (options.calibrated !== false) {
+      await this.loadCalibration();
+      if (!this.running || this.callback !== callback) return;
+    }
+
+    const frequency = options.frequency ?? 60;
+    this.smoothing = options.smoothing ? new LowPassFilter(options.smoothing) : undefined;
+    this.linear = new HighPassFilter(options.gravityCutoff ?? 0.5);
+    this.resampler = new Resampler(options.rate ?? frequency, (data, timestamp) => this.emit(data, timestamp));
+    this.resampler.start();
+    this.unsubscribe = this.accelerometer.subscribe(this.handleSample, { frequency });
+  }
+
+  /**
+   * Stop receiving readings
+   */
+  stop(): void {
+    if (!this.running) return;
+
+    this.running = false;
+    this.callback = undefined;
+    this.resampler?.stop();
+    this.resampler = undefined;
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  /**
+   * Check if readings are being processed
+   */
+  isActive(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Record the current pose as neutral and store the offsets
+   * Hold the device still in the pose that should read as `reference` while this runs
+   * @param options Recording time and reference reading
+   */
+  async calibrate(options: CalibrationOptions = {}): Promise<AccelerometerCalibrationData> {
+    const samples: AccelerometerData[] = [];
+    const unsubscribe = this.accelerometer.subscribe(data => samples.push(data), { frequency: 60 });
+    try {
+      await new Promise(resolve => setTimeout(resolve, options.duration ?? 1000));
+    } finally {
+      unsubscribe();
+    }
+
+    if (samples.length === 0) {
+      throw new Error('No accelerometer readings received during calibration');
+    }
+
+    const reference = options.reference ?? { x: 0, y: 0, z: 1 };
+    const mean = samples.reduce((sum, data) => ({ x: sum.x + data.x, y: sum.y + data.y, z: sum.z + data.z }), { x: 0, y: 0, z: 0 });
+    const calibration: AccelerometerCalibrationData = {
+      offsets: MotionMath.subtract(
+        { x: mean.x / samples.length, y: mean.y / samples.length, z: mean.z / samples.length },
+        reference
+      ),
+      calibratedAt: Date.now()
+    };
+
+    await this.storage().setItem(CALIBRATION_KEY, calibration);
+    this.calibration = calibration;
+    this.calibrationLoad = Promise.resolve(calibration);
+    this.linear?.reset();
+    this.smoothing?.reset();
+    return calibration;
+  }
+
+  /**
+   * Get the stored calibration
+   */
+  getCalibration(): Promise<AccelerometerCalibrationData | null> {
+    return this.loadCalibration();
+  }
+
+  /**
+   * Remove the stored calibration
+   */
+  async clearCalibration(): Promise<void> {
+    this.calibration = null;
+    this.calibrationLoad = Promise.resolve(null);
+    await this.storage().removeItem(CALIBRATION_KEY);
+  }
+
+  /**
+   * Apply the loaded calibration to a raw reading
+   * @param data Raw accelerometer reading
+   */
+  applyCalibration(data: AccelerometerData): AccelerometerData {
+    return this.calibration ? MotionMath.subtract(data, this.calibration.offsets) : { ...data };
+  }
+
+  private loadCalibration(): Promise<AccelerometerCalibrationData | null> {
+    if (!this.calibrationLoad) {
+      this.calibrationLoad = (async () => {
+        try {
+          this.calibration = await this.storage().getItem<AccelerometerCalibrationData>(CALIBRATION_KEY);
+        } catch (error) {
+          console.warn('Failed to load accelerometer calibration:', error);
+          this.calibration = null;
+        }
+        return this.calibration;
+      })();
+    }
+    return this.calibrationLoad;
+  }
+
+  private emit(raw: AccelerometerData, timestamp: number): void {
+    let data = this.options.calibrated !== false ? this.applyCalibration(raw) : raw;
+    if (this.smoothing) data = this.smoothing.apply(data, timestamp);
+
+    // Movement is the quickly changing part of the reading; what is left is gravity
+    const linear = this.linear!.apply(data, timestamp);
+    const processed: ProcessedAccelerometerData = {
+      ...data,
+      ...MotionMath.orientation(data),
+      gravity: MotionMath.subtract(data, linear),
+      linear,
+      timestamp
+    };
+
+    try {
+      this.callback?.(processed);
+    } catch (error) {
+      console.error('Error in motion callback:', error);
+    }
+  }
+}
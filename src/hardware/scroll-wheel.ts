@@ -0,0 +1,255 @@
+/**
+ * Scroll wheel motion
+ * Adds velocity, acceleration, fractional step accumulation and momentum to scroll wheel ticks
+ */
+
+import type { HardwareEvents } from './index';
+
+export type AccelerationCurve = 'none' | 'linear' | 'quadratic' | 'exponential' | ((velocity: number) => number);
+
+export interface ScrollWheelOptions {
+  curve?: AccelerationCurve;     // How speed multiplies movement (default: 'quadratic')
+  accelerationThreshold?: number;  // Ticks per second below which movement is not accelerated (default: 6)
+  maxMultiplier?: number;        // Upper bound for the acceleration multiplier (default: 8)
+  sensitivity?: number;          // Steps per unaccelerated tick, e.g. 0.25 for 4 ticks per step (default: 1)
+  velocityWindow?: number;       // Time over which tick speed is measured in ms (default: 400)
+  momentum?: boolean;            // Keep moving after a fast spin stops (default: true)
+  flingVelocity?: number;        // Ticks per second needed to start momentum (default: 12)
+  momentumDelay?: number;        // Time without ticks before momentum starts in ms (default: 100)
+  friction?: number;             // Fraction of momentum velocity left after one second (default: 0.05)
+  minVelocity?: number;          // Ticks per second at which momentum stops (default: 2)
+}
+
+export interface WheelMotion {
+  direction: 'up' | 'down';
+  delta: number;             // Accelerated movement in steps; negative = up, positive = down (like wheel deltaY)
+  velocity: number;          // Ticks per second
+  multiplier: number;        // Acceleration applied to this movement
+  momentum: boolean;         // Generated after the wheel stopped
+  timestamp: number;
+}
+
+export interface WheelStep {
+  steps: number;             // Whole steps; negative = up, positive = down
+  motion: WheelMotion;
+}
+
+export interface ScrollWheelEvents {
+  motion: (motion: WheelMotion) => void;   // Every tick and momentum frame
+  step: (step: WheelStep) => void;         // Whenever accumulated movement reaches whole steps
+  momentumEnd: () => void;                 // Momentum ran out, or a new tick or disable() stopped it
+}
+
+type ScrollWheelEvent = keyof ScrollWheelEvents;
+
+const MOMENTUM_FRAME = 1000 / 60;
+
+/**
+ * Scroll wheel stream with velocity, acceleration and momentum
+ */
+export class ScrollWheel {
+  private listeners: Map<ScrollWheelEvent, Set<(...args: any[]) => void>> = new Map();
+  private enabled = false;
+  private ticks: number[] = [];
+  private direction?: 'up' | 'down';
+  private accumulated = 0;
+  private velocity = 0;
+  private momentumTimer?: ReturnType<typeof setTimeout>;
+  private momentumFrame?: ReturnType<typeof setInterval>;
+
+  private readonly handleUp = () => { this.tick('up'); };
+  private readonly handleDown = () => { this.tick('down'); };
+
+  constructor(private hardware: HardwareEvents, private options: ScrollWheelOptions = {}) {}
+
+  /**
+   * Start tracking scroll wheel ticks
+   * @param options Acceleration and momentum options (merged with earlier options)
+   */
+  enable(options: ScrollWheelOptions = {}): void {
+    this.options = { ...this.options, ...options };
+    if (this.enabled) return;
+
+    this.enabled = true;
+    this.hardware.on('scrollUp', this.handleUp);
+    this.hardware.on('scrollDown', this.handleDown);
+  }
+
+  /**
+   * Stop tracking and cancel momentum
+   */
+  disable(): void {
+    if (!this.enabled) return;
+
+    this.enabled = false;
+    this.hardware.off('scrollUp', this.handleUp);
+    this.hardware.off('scrollDown', this.handleDown);
+    this.stopMomentum();
+    this.reset();
+  }
+
+  /**
+   * Check if ticks are being tracked
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Current speed in ticks per second (including momentum)
+   */
+  getVelocity(): number {
+    return this.velocity;
+  }
+
+  /**
+   * Add an event listener
+   * @param event Event name
+   * @param callback Event callback
+   */
+  on<E extends ScrollWheelEvent>(event: E, callback: ScrollWheelEvents[E]): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  /**
+   * Remove an event listener
+   * @param event Event name
+   * @param callback Callback to remove
+   */
+  off<E extends ScrollWheelEvent>(event: E, callback: ScrollWheelEvents[E]): void {
+    this.listeners.get(event)?.delete(callback);
+  }
+
+  /**
+   * Process a wheel tick
+   * Called for each scrollUp/scrollDown event while enabled; also usable with recorded input
+   * @param direction Tick direction
+   * @param timestamp Tick time in milliseconds (default: Date.now())
+   */
+  tick(direction: 'up' | 'down', timestamp: number = Date.now()): void {
+    this.stopMomentum();
+
+    // Reversing drops the speed and any partial step from the other direction
+    if (direction !== this.direction) {
+      this.reset();
+      this.direction = direction;
+    }
+
+    const velocityWindow = this.options.velocityWindow ?? 400;
+    this.ticks = this.ticks.filter(time => timestamp - time <= velocityWindow);
+    this.ticks.push(timestamp);
+    this.velocity = this.ticks.length > 1
+      ? (this.ticks.length - 1) * 1000 / Math.max(1, timestamp - this.ticks[0])
+      : 0;
+
+    this.move(direction, 1, false, timestamp);
+    this.scheduleMomentum(direction);
+  }
+
+  /**
+   * Multiplier the acceleration curve gives for a speed
+   * @param velocity Ticks per second
+   */
+  getMultiplier(velocity: number): number {
+    const curve = this.options.curve ?? 'quadratic';
+    const threshold = this.options.accelerationThreshold ?? 6;
+    const excess = Math.max(0, velocity - threshold) / threshold;
+
+    let multiplier: number;
+    if (typeof curve === 'function') {
+      multiplier = curve(velocity);
+    } else if (curve === 'linear') {
+      multiplier = 1 + excess;
+    } else if (curve === 'quadratic') {
+      multiplier = 1 + excess * excess;
+    } else if (curve === 'exponential') {
+      multiplier = Math.pow(2, excess);
+    } else {
+      multiplier = 1;
+    }
+    return Math.min(Math.max(multiplier, 0), this.options.maxMultiplier ?? 8);
+  }
+
+  private move(direction: 'up' | 'down', ticks: number, momentum: boolean, timestamp: number): void {
+    const multiplier = this.getMultiplier(this.velocity);
+    const sign = direction === 'up' ? -1 : 1;
+    const motion: WheelMotion = {
+      direction,
+      delta: sign * ticks * multiplier * (this.options.sensitivity ?? 1),
+      velocity: this.velocity,
+      multiplier,
+      momentum,
+      timestamp
+    };
+    this.emit('motion', motion);
+
+    this.accumulated += motion.delta;
+    const steps = Math.trunc(this.accumulated);
+    if (steps !== 0) {
+      this.accumulated -= steps;
+      this.emit('step', { steps, motion });
+    }
+  }
+
+  private scheduleMomentum(direction: 'up' | 'down'): void {
+    if (this.options.momentum === false) return;
+
+    this.momentumTimer = setTimeout(() => {
+      this.momentumTimer = undefined;
+      if (this.velocity < (this.options.flingVelocity ?? 12)) {
+        this.velocity = 0;
+        return;
+      }
+
+      let last = Date.now();
+      this.momentumFrame = setInterval(() => {
+        const now = Date.now();
+        const dt = (now - last) / 1000;
+        last = now;
+
+        this.velocity *= Math.pow(this.options.friction ?? 0.05, dt);
+        if (this.velocity < (this.options.minVelocity ?? 2)) {
+          this.stopMomentum();
+          this.velocity = 0;
+          return;
+        }
+        this.move(direction, this.velocity * dt, true, now);
+      }, MOMENTUM_FRAME);
+    }, this.options.momentumDelay ?? 100);
+  }
+
+  /**
+   * Cancel pending or running momentum; momentumEnd is emitted if it was running
+   */
+  private stopMomentum(): void {
+    if (this.momentumTimer !== undefined) {
+      clearTimeout(this.momentumTimer);
+      this.momentumTimer = undefined;
+    }
+    if (this.momentumFrame !== undefined) {
+      clearInterval(this.momentumFrame);
+      this.momentumFrame = undefined;
+      this.emit('momentumEnd');
+    }
+  }
+
+  private reset(): void {
+    this.ticks = [];
+    this.direction = undefined;
+    this.accumulated = 0;
+    this.velocity = 0;
+  }
+
+  private emit(event: ScrollWheelEvent, ...args: any[]): void {
+    this.listeners.get(event)?.forEach(callback => {
+      try {
+        callback(...args);
+      } catch (error) {
+        console.error(`Error in scroll wheel ${event} listener:`, error);
+      }
+    });
+  }
+}
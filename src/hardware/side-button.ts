@@ -0,0 +1,150 @@
+/**
+ * Side button pattern recognition
+ * Turns sideClick, longPressStart and longPressEnd into multi-clicks, hold thresholds
+ * and scroll-while-held combos
+ */
+
+export interface SideButtonPatternOptions {
+  clickWindow?: number;          // Maximum time between clicks of a double or triple click in ms (default: 300)
+  holdThresholds?: number[];     // Hold durations to report, from the start of the long press in ms (default: [1000, 3000])
+}
+
+export interface HoldEvent {
+  threshold: number;         // Threshold that was reached (for holdEnd: the highest one, or 0)
+  duration: number;          // Time held so far in ms
+  scrolls: number;           // Scroll ticks while held
+}
+
+export interface HoldScrollEvent {
+  direction: 'up' | 'down';
+  duration: number;          // Time held when the wheel moved in ms
+}
+
+export interface SideButtonPatternEvents {
+  singleClick: () => void;
+  doubleClick: () => void;
+  tripleClick: () => void;
+  hold: (event: HoldEvent) => void;          // A hold threshold was reached while still held
+  holdEnd: (event: HoldEvent) => void;       // The button was released after a long press
+  holdScroll: (event: HoldScrollEvent) => void;
+}
+
+export type SideButtonPattern = keyof SideButtonPatternEvents;
+
+const CLICK_EVENTS: SideButtonPattern[] = ['singleClick', 'doubleClick', 'tripleClick'];
+
+/**
+ * Recognizes side button patterns from raw hardware events
+ * Single clicks are only delayed while double or triple click listeners exist
+ */
+export class SideButtonPatterns {
+  private options: SideButtonPatternOptions = {};
+  private clicks = 0;
+  private clickTimer?: ReturnType<typeof setTimeout>;
+  private holdStart?: number;
+  private holdReached = 0;
+  private holdScrolls = 0;
+  private holdTimers: ReturnType<typeof setTimeout>[] = [];
+
+  constructor(
+    private emit: (event: SideButtonPattern, ...args: any[]) => void,
+    private hasListeners: (event: SideButtonPattern) => boolean
+  ) {}
+
+  /**
+   * Change the click window or hold thresholds
+   * @param options Pattern options (merged with earlier options)
+   */
+  configure(options: SideButtonPatternOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Handle a side click
+   */
+  click(): void {
+    this.clicks++;
+    if (this.clickTimer !== undefined) {
+      clearTimeout(this.clickTimer);
+      this.clickTimer = undefined;
+    }
+
+    // Wait for more clicks only if a listener could still want them
+    const maxCount = this.hasListeners('tripleClick') ? 3 : this.hasListeners('doubleClick') ? 2 : 1;
+    if (this.clicks >= maxCount) {
+      this.flushClicks();
+    } else {
+      this.clickTimer = setTimeout(() => this.flushClicks(), this.options.clickWindow ?? 300);
+    }
+  }
+
+  /**
+   * Handle the start of a long press
+   */
+  pressStart(): void {
+    this.flushClicks();
+    this.clearHold();
+
+    const start = Date.now();
+    this.holdStart = start;
+    this.holdTimers = [...(this.options.holdThresholds ?? [1000, 3000])]
+      .sort((a, b) => a - b)
+      .map(threshold => setTimeout(() => {
+        this.holdReached = threshold;
+        this.emit('hold', { threshold, duration: Date.now() - start, scrolls: this.holdScrolls });
+      }, threshold));
+  }
+
+  /**
+   * Handle the end of a long press
+   */
+  pressEnd(): void {
+    if (this.holdStart === undefined) return;
+
+    const event: HoldEvent = {
+      threshold: this.holdReached,
+      duration: Date.now() - this.holdStart,
+      scrolls: this.holdScrolls
+    };
+    this.clearHold();
+    this.emit('holdEnd', event);
+  }
+
+  /**
+   * Handle a scroll wheel tick
+   * @param direction Tick direction
+   */
+  scroll(direction: 'up' | 'down'): void {
+    if (this.holdStart === undefined) return;
+
+    this.holdScrolls++;
+    this.emit('holdScroll', { direction, duration: Date.now() - this.holdStart });
+  }
+
+  /**
+   * Check if the button is currently held
+   */
+  isHeld(): boolean {
+    return this.holdStart !== undefined;
+  }
+
+  private flushClicks(): void {
+    if (this.clickTimer !== undefined) {
+      clearTimeout(this.clickTimer);
+      this.clickTimer = undefined;
+    }
+    if (this.clicks === 0) return;
+
+    const count = Math.min(this.clicks, CLICK_EVENTS.length);
+    this.clicks = 0;
+    this.emit(CLICK_EVENTS[count - 1]);
+  }
+
+  private clearHold(): void {
+    this.holdTimers.forEach(timer => clearTimeout(timer));
+    this.holdTimers = [];
+    this.holdStart = undefined;
+    this.holdReached = 0;
+    this.holdScrolls = 0;
+  }
+}
@@ -19,11 +19,43 @@ export type { HardwareEventType } from './types';
 // Hardware APIs
 export {
   AccelerometerAPI,
+  type AccelerometerSubscribeOptions,
   TouchAPI,
   HardwareEvents,
   accelerometer,
   touch,
   hardwareEvents,
+  GestureRecognizer,
+  gestures,
+  type Gesture,
+  type GestureType,
+  type GestureEvents,
+  type GestureOptions,
+  type TiltDirection,
+  MotionProcessor,
+  MotionMath,
+  LowPassFilter,
+  HighPassFilter,
+  Resampler,
+  motion,
+  type Orientation,
+  type ProcessedAccelerometerData,
+  type AccelerometerCalibrationData,
+  type MotionProcessorOptions,
+  type CalibrationOptions,
+  ScrollWheel,
+  scrollWheel,
+  type AccelerationCurve,
+  type ScrollWheelOptions,
+  type WheelMotion,
+  type WheelStep,
+  type ScrollWheelEvents,
+  SideButtonPatterns,
+  type SideButtonPattern,
+  type SideButtonPatternEvents,
+  type SideButtonPatternOptions,
+  type HoldEvent,
+  type HoldScrollEvent,
   // New device controls
   DeviceControls,
   deviceControls,
@@ -37,15 +69,108 @@ export {
 export {
   Base64Utils,
   R1Storage,
-  storage
+  StorageWrapper,
+  NamespacedStorage,
+  StorageMigrator,
+  StorageMigrationError,
+  EncryptedStorage,
+  DecryptionError,
+  DefaultCodec,
+  StorageEncoding,
+  StorageIntegrityError,
+  StorageTransaction,
+  StorageTransactionError,
+  Collection,
+  PersistedStore,
+  StoreSelector,
+  storage,
+  createStore,
+  type StoreOptions,
+  type StoreListener,
+  StorageBackup,
+  BackupError,
+  type BackupBundle,
+  type BackupExportOptions,
+  type BackupImportOptions,
+  type BackupImportResult,
+  type CollectionDocument,
+  type Filter,
+  type FindOptions,
+  type CollectionOptions,
+  type CollectionChange,
+  type SetItemOptions,
+  type TransactionRecovery,
+  type StorageWrapperOptions,
+  type StorageCodec,
+  type Migration,
+  type MigrationContext,
+  type MigrationFunction,
+  type MigrationChange,
+  type MigrationRunOptions,
+  type MigrationResult,
+  type EncryptionKey,
+  type EncryptedStorageOptions,
+  type PasswordKeyOptions,
+  type SecureKeyOptions,
+  type DecryptionErrorReason
 } from './storage';
 
 // LLM and messaging APIs
 export {
   R1Messaging,
   LLMHelpers,
+  R1RequestError,
+  SchemaUtils,
+  SchemaValidationError,
+  Conversation,
+  ConversationManager,
+  ToolRegistry,
+  DeviceTools,
+  MessageQueue,
+  ResponseCache,
+  SearchParser,
+  WebSearch,
+  PushToTalk,
   messaging,
-  llmHelpers
+  llmHelpers,
+  conversations,
+  webSearch,
+  pushToTalk,
+  type MessageHandler,
+  type LLMOptions,
+  type MessageOptions,
+  type ParsedMessageResponse,
+  type RequestOptions,
+  type RequestErrorCode,
+  type JSONRequestOptions,
+  type ImageQueryOptions,
+  type ResponseSchema,
+  type InferSchema,
+  type SchemaIssue,
+  type ConversationTurn,
+  type ConversationSession,
+  type ConversationSummary,
+  type ConversationOptions,
+  type ToolDefinition,
+  type ToolCall,
+  type AgentStep,
+  type AgentOptions,
+  type AgentResult,
+  type QueueSendOptions,
+  type MessageQueueOptions,
+  type QueuedMessage,
+  type ResponseCacheOptions,
+  type CacheCallOptions,
+  type SearchMessageOptions,
+  type SearchResult,
+  type SearchAnswerBox,
+  type SearchKnowledgePanel,
+  type SearchResponse,
+  type SearchOptions,
+  type VoiceState,
+  type VoiceCancelReason,
+  type PushToTalkOptions,
+  type PushToTalkEvents
 } from './llm';
 
 // UI utilities
@@ -59,6 +184,8 @@ export {
   // New UI design system
   R1UI,
   ui,
+  SearchResultList,
+  type SearchResultListOptions,
   type UIDimensions,
   type UIFontSizes,
   type UISpacing,
@@ -78,19 +205,45 @@ export {
   MediaUtils,
   camera,
   microphone,
-  speaker
+  speaker,
+  type ImageSource,
+  type ImageCompressionOptions,
+  type CompressedImage
 } from './media';
 
+// Host simulator for development and testing
+export {
+  R1Simulator,
+  MemoryStorage,
+  SimulatedAccelerometer,
+  defaultResponder,
+  installSimulator,
+  BridgeRecorder,
+  TracePlayer,
+  type SimulatorOptions,
+  type SimulatedResponse,
+  type MessageResponder,
+  type AccelerometerScriptOptions,
+  type BridgeTrace,
+  type TraceEvent,
+  type TracePlaybackOptions,
+  type TraceMismatch,
+  type TraceMetaValue
+} from './simulator';
+
 // Import types and instances for internal use
 import type { HardwareEventType } from './types';
 import { 
   accelerometer, 
   touch, 
   hardwareEvents,
+  gestures,
+  motion,
+  scrollWheel,
   deviceControls
 } from './hardware';
 import { storage, R1Storage } from './storage';
-import { messaging, llmHelpers } from './llm';
+import { messaging, llmHelpers, conversations, webSearch, pushToTalk } from './llm';
 import { R1_DIMENSIONS, ui } from './ui';
 import { camera, microphone, speaker, MediaUtils } from './media';
 
@@ -103,6 +256,9 @@ export class R1SDK {
   public readonly accelerometer = accelerometer;
   public readonly touch = touch;
   public readonly hardware = hardwareEvents;
+  public readonly gestures = gestures;
+  public readonly motion = motion;
+  public readonly scrollWheel = scrollWheel;
   public readonly deviceControls = deviceControls;
   
   // Storage
@@ -111,6 +267,9 @@ export class R1SDK {
   // LLM and messaging
   public readonly messaging = messaging;
   public readonly llm = llmHelpers;
+  public readonly conversations = conversations;
+  public readonly search = webSearch;
+  public readonly pushToTalk = pushToTalk;
   
   // Media
   public readonly camera = camera;
@@ -132,6 +291,10 @@ export class R1SDK {
       throw new Error('R1 SDK must be used in a browser environment');
     }
 
+    // Finish interrupted writes and upgrade stored data before the plugin reads it
+    await this.storage.recoverTransactions();
+    await this.storage.runPendingMigrations();
+
     // Log SDK initialization
     console.log('R1 SDK initialized');
     console.log(`Display dimensions: ${R1_DIMENSIONS.width}x${R1_DIMENSIONS.height}px`);
@@ -0,0 +1,316 @@
+/**
+ * Conversation sessions for multi-turn LLM chats
+ * Keeps history, frames prompts with trimmed prior context and persists sessions in plain storage
+ */
+
+import { R1Storage } from '../storage';
+import type { R1Messaging, LLMOptions } from './index';
+import type { ParsedMessageResponse, RequestOptions } from './pending-requests';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+}
+
+export interface ConversationSession {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  parentId?: string;     // Session this one was forked from
+  turns: ConversationTurn[];
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  parentId?: string;
+  turnCount: number;
+}
+
+export interface ConversationOptions {
+  systemPrompt?: string;  // Instructions placed before the history in every prompt
+  maxTurns?: number;      // Most recent turns included as context (default: 10)
+  maxChars?: number;      // Character budget for included history (default: 2000)
+  persist?: boolean;      // Save sessions to plain storage (default: true)
+}
+
+const INDEX_KEY = 'conversation_index';
+const SESSION_KEY_PREFIX = 'conversation_';
+
+/**
+ * A single multi-turn conversation session
+ */
+export class Conversation {
+  constructor(
+    private session: ConversationSession,
+    private manager: ConversationManager,
+    private options: ConversationOptions = {}
+  ) {}
+
+  /**
+   * Session identifier
+   */
+  get id(): string {
+    return this.session.id;
+  }
+
+  /**
+   * Session title (defaults to the first message)
+   */
+  get title(): string {
+    return this.session.title;
+  }
+
+  /**
+   * Ask the LLM with prior turns as context and record the exchange
+   * @param message Message text
+   * @param options LLM options plus timeout and abort signal
+   */
+  async ask(message: string, options: LLMOptions & RequestOptions = {}): Promise<ParsedMessageResponse> {
+    const response = await this.manager.messaging.askLLMAndWait(this.buildPrompt(message), options);
+
+    const now = Date.now();
+    if (this.session.turns.length === 0 && !this.session.title) {
+      this.session.title = message.slice(0, 40);
+    }
+    this.session.turns.push(
+      { role: 'user', content: message, timestamp: now },
+      { role: 'assistant', content: response.message, timestamp: now }
+    );
+    this.session.updatedAt = now;
+
+    await this.save();
+    return response;
+  }
+
+  /**
+   * Get a copy of the full history
+   */
+  getHistory(): ConversationTurn[] {
+    return this.session.turns.map(turn => ({ ...turn }));
+  }
+
+  /**
+   * Rename the session
+   * @param title New title
+   */
+  async rename(title: string): Promise<void> {
+    this.session.title = title;
+    this.session.updatedAt = Date.now();
+    await this.save();
+  }
+
+  /**
+   * Remove all turns but keep the session
+   */
+  async clear(): Promise<void> {
+    this.session.turns = [];
+    this.session.updatedAt = Date.now();
+    await this.save();
+  }
+
+  /**
+   * Create a new session starting with this session's history
+   * @param title Optional title for the fork
+   */
+  async fork(title?: string): Promise<Conversation> {
+    return this.manager.forkSession(this.toJSON(), title, this.options);
+  }
+
+  /**
+   * Delete this session from storage
+   */
+  async delete(): Promise<void> {
+    await this.manager.delete(this.session.id);
+  }
+
+  /**
+   * Build the prompt for a new message, including trimmed history
+   * @param message New message text
+   */
+  buildPrompt(message: string): string {
+    const maxTurns = this.options.maxTurns ?? 10;
+    const maxChars = this.options.maxChars ?? 2000;
+    const lines: string[] = [];
+    let chars = 0;
+
+    // Walk backwards so the most recent turns are kept
+    const recent = maxTurns > 0 ? this.session.turns.slice(-maxTurns) : [];
+    for (let i = recent.length - 1; i >= 0; i--) {
+      const turn = recent[i];
+      const line = `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`;
+      if (chars + line.length > maxChars) break;
+      lines.unshift(line);
+      chars += line.length;
+    }
+
+    const parts: string[] = [];
+    if (this.options.systemPrompt) {
+      parts.push(this.options.systemPrompt);
+    }
+    if (lines.length > 0) {
+      parts.push(`Conversation so far:\n${lines.join('\n')}`);
+    }
+    parts.push(lines.length > 0 || this.options.systemPrompt ? `User: ${message}` : message);
+
+    return parts.join('\n\n');
+  }
+
+  /**
+   * Get a serializable snapshot of the session
+   */
+  toJSON(): ConversationSession {
+    return { ...this.session, turns: this.getHistory() };
+  }
+
+  private async save(): Promise<void> {
+    await this.manager.save(this.session, this.options);
+  }
+}
+
+/**
+ * Creates, lists and restores conversation sessions
+ */
+export class ConversationManager {
+  private counter = 0;
+  private indexWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    public readonly messaging: R1Messaging,
+    private storage: R1Storage,
+    private defaults: ConversationOptions = {}
+  ) {}
+
+  /**
+   * Start a new session
+   * @param options Session options (merged with manager defaults)
+   */
+  async create(options: ConversationOptions & { title?: string } = {}): Promise<Conversation> {
+    const { title = '', ...conversationOptions } = options;
+    const now = Date.now();
+    this.counter++;
+
+    const session: ConversationSession = {
+      id: `conv_${now.toString(36)}_${this.counter}`,
+      title,
+      createdAt: now,
+      updatedAt: now,
+      turns: []
+    };
+
+    const mergedOptions = { ...this.defaults, ...conversationOptions };
+    await this.save(session, mergedOptions);
+    return new Conversation(session, this, mergedOptions);
+  }
+
+  /**
+   * Resume a stored session
+   * @param id Session identifier
+   * @param options Session options (merged with manager defaults)
+   * @returns The session, or null if it does not exist
+   */
+  async resume(id: string, options: ConversationOptions = {}): Promise<Conversation | null> {
+    const mergedOptions = { ...this.defaults, ...options };
+    if (!this.canPersist(mergedOptions)) return null;
+
+    const session = await this.storage.plain.getItem<ConversationSession>(`${SESSION_KEY_PREFIX}${id}`);
+    return session ? new Conversation(session, this, mergedOptions) : null;
+  }
+
+  /**
+   * List stored sessions, most recently updated first
+   */
+  async list(): Promise<ConversationSummary[]> {
+    const index = await this.readIndex();
+    return [...index].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Copy a session's history into a new session
+   * @param id Session to fork
+   * @param title Optional title for the fork
+   */
+  async fork(id: string, title?: string): Promise<Conversation> {
+    const source = await this.resume(id);
+    if (!source) {
+      throw new Error(`Conversation not found: ${id}`);
+    }
+
+    return this.forkSession(source.toJSON(), title);
+  }
+
+  /**
+   * Copy a session snapshot into a new session
+   * @param original Session to copy
+   * @param title Optional title for the fork
+   * @param options Session options (merged with manager defaults)
+   */
+  async forkSession(original: ConversationSession, title?: string, options: ConversationOptions = {}): Promise<Conversation> {
+    const fork = await this.create({ ...options, title: title ?? original.title });
+    const session: ConversationSession = {
+      ...fork.toJSON(),
+      parentId: original.id,
+      turns: original.turns.map(turn => ({ ...turn }))
+    };
+
+    const mergedOptions = { ...this.defaults, ...options };
+    await this.save(session, mergedOptions);
+    return new Conversation(session, this, mergedOptions);
+  }
+
+  /**
+   * Delete a stored session
+   * @param id Session identifier
+   */
+  async delete(id: string): Promise<void> {
+    if (!this.canPersist()) return;
+
+    await this.storage.plain.removeItem(`${SESSION_KEY_PREFIX}${id}`);
+    await this.updateIndex(index => index.filter(entry => entry.id !== id));
+  }
+
+  /**
+   * Persist a session and update the session index
+   * @param session Session to store
+   * @param options Options of the owning conversation
+   */
+  async save(session: ConversationSession, options: ConversationOptions = this.defaults): Promise<void> {
+    if (!this.canPersist(options)) return;
+
+    await this.storage.plain.setItem(`${SESSION_KEY_PREFIX}${session.id}`, session);
+
+    const summary: ConversationSummary = {
+      id: session.id,
+      title: session.title,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      parentId: session.parentId,
+      turnCount: session.turns.length
+    };
+    await this.updateIndex(index => [...index.filter(entry => entry.id !== session.id), summary]);
+  }
+
+  private async readIndex(): Promise<ConversationSummary[]> {
+    if (!this.canPersist()) return [];
+    return (await this.storage.plain.getItem<ConversationSummary[]>(INDEX_KEY)) ?? [];
+  }
+
+  /**
+   * Apply a change to the session index; writes are serialized so concurrent saves don't drop sessions
+   */
+  private updateIndex(change: (index: ConversationSummary[]) => ConversationSummary[]): Promise<void> {
+    const next = this.indexWrite.then(async () => {
+      await this.storage.plain.setItem(INDEX_KEY, change(await this.readIndex()));
+    });
+    this.indexWrite = next.catch(() => {});
+    return next;
+  }
+
+  private canPersist(options: ConversationOptions = this.defaults): boolean {
+    return options.persist !== false && R1Storage.isAvailable();
+  }
+}
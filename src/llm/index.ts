@@ -4,6 +4,23 @@
  */
 
 import type { PluginMessage, PluginMessageResponse, SpeechSynthesisOptions } from '../types';
+import { storage } from '../storage';
+import { camera as defaultCamera, microphone, MediaUtils } from '../media';
+import { hardwareEvents } from '../hardware';
+import type { CameraAPI, ImageCompressionOptions, ImageSource } from '../media';
+import { ConversationManager } from './conversation';
+import { ToolRegistry } from './tools';
+import { MessageQueue } from './message-queue';
+import type { MessageQueueOptions } from './message-queue';
+import { ResponseCache } from './response-cache';
+import { WebSearch } from './search';
+import { PushToTalk } from './push-to-talk';
+import type { ResponseCacheOptions } from './response-cache';
+import type { AgentOptions, AgentResult, AgentStep, ToolDefinition } from './tools';
+import { PendingRequests, R1RequestError } from './pending-requests';
+import type { ParsedMessageResponse, RequestOptions } from './pending-requests';
+import { SchemaUtils, SchemaValidationError } from './json-schema';
+import type { InferSchema, ObjectSchema, ResponseSchema, SchemaIssue } from './json-schema';
 
 export interface LLMOptions {
   wantsR1Response?: boolean;    // Whether LLM should speak through R1 speaker
@@ -17,16 +34,41 @@ export interface MessageOptions extends LLMOptions {
   imageBase64?: string;  // Optional base64-encoded image
 }
 
+export interface ImageQueryOptions extends LLMOptions, RequestOptions, ImageCompressionOptions {
+  image?: ImageSource;   // Image to send (default: a frame captured from the camera)
+  camera?: CameraAPI;    // Camera to capture from (default: the shared camera)
+  frameTimeout?: number; // Time to wait for the camera's first frame in ms (default: 5000)
+}
+
+export interface JSONRequestOptions<S extends ResponseSchema = ResponseSchema> extends LLMOptions, RequestOptions {
+  schema: S;         // Expected shape of the JSON response
+  retries?: number;  // Corrective follow-ups after an invalid reply (default: 2)
+}
+
+export interface SearchMessageOptions {
+  useLocation?: boolean;  // Let the search use the device location (default: false)
+  page?: number;          // 1-based results page (default: 1)
+}
+
+export interface QueueSendOptions {
+  dedupeKey?: string;  // With the queue enabled, skip the message if one with this key is pending
+}
+
 /**
  * Type-safe LLM response handler
  */
-export type MessageHandler<T = any> = (response: PluginMessageResponse & { parsedData?: T }) => void;
+export type MessageHandler<T = any> = (response: ParsedMessageResponse<T>) => void;
 
 /**
  * LLM and messaging API for R1 interactions
  */
 export class R1Messaging {
   private messageHandlers: Set<MessageHandler> = new Set();
+  private pendingRequests = new PendingRequests();
+  private toolRegistry = new ToolRegistry();
+  private queue?: MessageQueue;
+  private cache?: ResponseCache;
+  private revalidating: Set<string> = new Set();
   private isInitialized = false;
 
   constructor() {
@@ -35,15 +77,23 @@ export class R1Messaging {
 
   /**
    * Send a simple message to the server
+   * With the queue enabled, messages are queued while the bridge is unavailable
    * @param message Message text
    * @param options Message options
    */
-  async sendMessage(message: string, options: MessageOptions = {}): Promise<void> {
+  async sendMessage(message: string, options: MessageOptions & QueueSendOptions = {}): Promise<void> {
+    const { dedupeKey, ...messageOptions } = options;
     const payload: PluginMessage = {
       message,
-      ...options
+      ...messageOptions
     };
 
+    // Queued messages go first so delivery order is preserved
+    if (this.queue && (this.queue.size > 0 || typeof PluginMessageHandler === 'undefined')) {
+      await this.queue.enqueue(payload, dedupeKey);
+      return;
+    }
+
     if (typeof PluginMessageHandler !== 'undefined') {
       PluginMessageHandler.postMessage(JSON.stringify(payload));
     } else {
@@ -51,6 +101,39 @@ export class R1Messaging {
     }
   }
 
+  /**
+   * Queue outgoing messages while the bridge is unavailable and deliver them in order later
+   * Pending messages from a previous session are restored from storage
+   * @param options Queue options
+   */
+  async enableQueue(options: MessageQueueOptions = {}): Promise<MessageQueue> {
+    this.queue?.dispose();
+    this.queue = new MessageQueue(
+      payload => PluginMessageHandler.postMessage(JSON.stringify(payload)),
+      () => typeof PluginMessageHandler !== 'undefined',
+      storage,
+      options
+    );
+    await this.queue.load();
+    return this.queue;
+  }
+
+  /**
+   * Stop queueing; sendMessage throws again when the bridge is unavailable
+   * Pending messages stay in storage until the queue is enabled again
+   */
+  disableQueue(): void {
+    this.queue?.dispose();
+    this.queue = undefined;
+  }
+
+  /**
+   * Get the outgoing message queue, if enabled
+   */
+  getQueue(): MessageQueue | undefined {
+    return this.queue;
+  }
+
   /**
    * Send a message and get LLM response
    * @param message Message text
@@ -68,22 +151,12 @@ export class R1Messaging {
    * @param query Search query
    * @param options Additional options
    */
-  async searchWeb(query: string, options: Omit<MessageOptions, 'useSerpAPI'> = {}): Promise<void> {
-    const payload: PluginMessage = {
-      message: JSON.stringify({
-        query: query,
-        useLocation: false,
-        tag: 'search'
-      }),
+  async searchWeb(query: string, options: Omit<MessageOptions, 'useSerpAPI'> & SearchMessageOptions = {}): Promise<void> {
+    const { useLocation, page, ...messageOptions } = options;
+    await this.sendMessage(this.createSearchMessage(query, { useLocation, page }), {
       useSerpAPI: true,
-      ...options
-    };
-
-    if (typeof PluginMessageHandler !== 'undefined') {
-      PluginMessageHandler.postMessage(JSON.stringify(payload));
-    } else {
-      throw new Error('PluginMessageHandler not available. Make sure you are running in R1 environment.');
-    }
+      ...messageOptions
+    });
   }
 
   /**
@@ -113,14 +186,195 @@ export class R1Messaging {
 
   /**
    * Ask LLM for JSON structured response
+   * With a schema, the expected format is added to the prompt and the reply is
+   * validated, retrying with a corrective follow-up before rejecting with a
+   * SchemaValidationError. Without one, the request is fire-and-forget.
+   * @param message Message text (should specify desired JSON format unless a schema is given)
+   * @param options LLM options, optionally with a response schema
+   */
+  async askLLMJSON<const S extends ResponseSchema>(message: string, options: JSONRequestOptions<S>): Promise<InferSchema<S>>;
+  async askLLMJSON<T = any>(message: string, options?: LLMOptions): Promise<void>;
+  async askLLMJSON(message: string, options: LLMOptions | JSONRequestOptions = {}): Promise<any> {
+    if ('schema' in options && options.schema) {
+      return this.askLLMWithSchema(message, options);
+    }
+
+    await this.askLLM(this.createJSONMessage(message), options);
+  }
+
+  /**
+   * Send a message and wait for the response that answers it
+   * Concurrent requests are correlated by pluginId; responses without one go to the oldest request
+   * @param message Message text
+   * @param options Message options plus timeout and abort signal
+   */
+  async request<T = any>(message: string, options: MessageOptions & RequestOptions = {}): Promise<ParsedMessageResponse<T>> {
+    const { timeout, signal, cache: cacheOptions, ...messageOptions } = options;
+    const cache = this.cache;
+
+    if (!cache || cacheOptions === false || !(messageOptions.useLLM || messageOptions.useSerpAPI)) {
+      return this.sendRequest<T>(message, messageOptions, { timeout, signal });
+    }
+
+    const key = ResponseCache.createKey(message, messageOptions);
+    if (!cacheOptions?.bypass) {
+      const hit = await cache.get(key);
+      if (hit) {
+        if (hit.stale && !this.revalidating.has(key)) {
+          // Serve the stale response and refresh it in the background
+          this.revalidating.add(key);
+          this.sendRequest(message, messageOptions, { timeout })
+            .then(response => cache.set(key, response, cacheOptions))
+            .catch(error => console.warn('Failed to revalidate cached response:', error))
+            .finally(() => this.revalidating.delete(key));
+        }
+        return hit.response;
+      }
+    }
+
+    const response = await this.sendRequest<T>(message, messageOptions, { timeout, signal });
+    await cache.set(key, response, cacheOptions);
+    return response;
+  }
+
+  /**
+   * Ask LLM and wait for its response
+   * @param message Message text
+   * @param options LLM options plus timeout and abort signal
+   */
+  async askLLMAndWait<T = any>(message: string, options: LLMOptions & RequestOptions = {}): Promise<ParsedMessageResponse<T>> {
+    return this.request<T>(message, {
+      useLLM: true,
+      ...options
+    });
+  }
+
+  /**
+   * Ask LLM for JSON structured response and wait for it
    * @param message Message text (should specify desired JSON format)
-   * @param options LLM options
+   * @param options LLM options plus timeout and abort signal
    */
-  async askLLMJSON<T = any>(message: string, options: LLMOptions = {}): Promise<void> {
-    const jsonMessage = message.includes('JSON') ? message : 
-      `${message}. Please respond with a valid JSON object.`;
-    
-    await this.askLLM(jsonMessage, options);
+  async askLLMJSONAndWait<T = any>(message: string, options: LLMOptions & RequestOptions = {}): Promise<ParsedMessageResponse<T>> {
+    return this.askLLMAndWait<T>(this.createJSONMessage(message), options);
+  }
+
+  /**
+   * Search the web and wait for the results
+   * @param query Search query
+   * @param options Additional options plus timeout and abort signal
+   */
+  async searchWebAndWait<T = any>(
+    query: string,
+    options: Omit<MessageOptions, 'useSerpAPI'> & SearchMessageOptions & RequestOptions = {}
+  ): Promise<ParsedMessageResponse<T>> {
+    const { useLocation, page, ...messageOptions } = options;
+    return this.request<T>(this.createSearchMessage(query, { useLocation, page }), {
+      useSerpAPI: true,
+      ...messageOptions
+    });
+  }
+
+  /**
+   * Cache LLM and SERP responses returned by request and the ...AndWait methods
+   * @param options Cache options
+   */
+  async enableCache(options: ResponseCacheOptions = {}): Promise<ResponseCache> {
+    this.cache = new ResponseCache(storage, options);
+    await this.cache.load();
+    return this.cache;
+  }
+
+  /**
+   * Stop caching responses (stored entries are kept)
+   */
+  disableCache(): void {
+    this.cache = undefined;
+  }
+
+  /**
+   * Get the response cache, if enabled
+   */
+  getCache(): ResponseCache | undefined {
+    return this.cache;
+  }
+
+  /**
+   * Number of requests still waiting for a response
+   */
+  getPendingRequestCount(): number {
+    return this.pendingRequests.size;
+  }
+
+  /**
+   * Reject all requests that are still waiting for a response
+   */
+  cancelPendingRequests(): void {
+    this.pendingRequests.rejectAll(new R1RequestError('Request cancelled', 'aborted'));
+  }
+
+  /**
+   * Register a tool the LLM may call from runAgent
+   * @param tool Tool definition with name, description, argument schema and handler
+   */
+  registerTool<const S extends ObjectSchema>(tool: ToolDefinition<S>): void {
+    this.toolRegistry.register(tool);
+  }
+
+  /**
+   * Remove a registered tool
+   * @param name Tool name
+   */
+  unregisterTool(name: string): void {
+    this.toolRegistry.unregister(name);
+  }
+
+  /**
+   * Get the tool registry
+   */
+  get tools(): ToolRegistry {
+    return this.toolRegistry;
+  }
+
+  /**
+   * Run an agent loop: the LLM may call registered tools until it gives a final answer
+   * @param prompt Task for the LLM
+   * @param options Agent options plus LLM options, timeout and abort signal
+   */
+  async runAgent(prompt: string, options: AgentOptions = {}): Promise<AgentResult> {
+    const { maxSteps = 5, tools = this.toolRegistry.list(), systemPrompt, ...requestOptions } = options;
+    const header = [systemPrompt, this.toolRegistry.describe(tools), `Task: ${prompt}`]
+      .filter(Boolean)
+      .join('\n\n');
+    const steps: AgentStep[] = [];
+    let imageBase64: string | undefined;
+
+    while (true) {
+      const history = steps.map(step => {
+        const outcome = step.error !== undefined ? `error: ${step.error}` : `result: ${JSON.stringify(step.result)}`;
+        return `Called ${step.call.tool} with ${JSON.stringify(step.call.arguments)} -> ${outcome}`;
+      });
+      const message = history.length > 0 ? `${header}\n\nTool results so far:\n${history.join('\n')}` : header;
+
+      const response = await this.request(message, { useLLM: true, ...requestOptions, imageBase64 });
+      const call = this.toolRegistry.parseToolCall(response);
+
+      if (!call) {
+        return { answer: response.message, stopReason: 'answer', steps, response };
+      }
+      if (steps.length >= maxSteps) {
+        return { answer: '', stopReason: 'step_limit', steps, response };
+      }
+
+      const step = await this.toolRegistry.execute(call, tools);
+      // Images returned by tools go to the LLM as an attachment rather than text
+      imageBase64 = undefined;
+      if (step.result && typeof step.result === 'object' && typeof step.result.imageBase64 === 'string') {
+        const { imageBase64: image, ...rest } = step.result;
+        imageBase64 = image;
+        step.result = { ...rest, image: 'attached' };
+      }
+      steps.push(step);
+    }
   }
 
   /**
@@ -172,8 +426,10 @@ export class R1Messaging {
           }
         }
 
-        // Call all registered handlers
+        // Settle the request waiting for this response, then notify handlers
         const enhancedData = { ...data, parsedData };
+        this.pendingRequests.resolve(enhancedData);
+
         this.messageHandlers.forEach(handler => {
           try {
             handler(enhancedData);
@@ -189,6 +445,87 @@ export class R1Messaging {
     this.isInitialized = true;
   }
 
+  private async askLLMWithSchema(message: string, options: JSONRequestOptions): Promise<any> {
+    const { schema, retries = 2, ...requestOptions } = options;
+    const format = SchemaUtils.describe(schema);
+    let prompt = `${message}\n\nRespond with only a valid JSON object in this format:\n${format}`;
+    let issues: SchemaIssue[] = [];
+    let raw = '';
+
+    for (let attempt = 1; attempt <= retries + 1; attempt++) {
+      // Corrective follow-ups must reach the LLM rather than a cached reply
+      const response = await this.askLLMAndWait(prompt, attempt === 1 || requestOptions.cache === false
+        ? requestOptions
+        : { ...requestOptions, cache: { ...requestOptions.cache, bypass: true } });
+      raw = response.data ?? response.message;
+
+      const candidates = [response.parsedData, response.data, response.message]
+        .map(candidate => typeof candidate === 'string' ? SchemaUtils.extractJSON(candidate) : candidate)
+        .filter(candidate => candidate !== undefined && candidate !== null);
+
+      if (candidates.length === 0) {
+        issues = [{ path: '$', message: 'no JSON found in reply' }];
+      } else {
+        const valid = candidates.find(candidate => SchemaUtils.validate(candidate, schema).length === 0);
+        if (valid !== undefined) return valid;
+        issues = SchemaUtils.validate(candidates[0], schema);
+      }
+
+      if (attempt === 1 && this.cache) {
+        await this.cache.delete(ResponseCache.createKey(prompt, { useLLM: true, ...requestOptions }));
+      }
+
+      const problems = issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+      prompt = `${message}\n\nYour previous reply was not valid (${problems}). ` +
+        `Previous reply: ${raw.slice(0, 500)}\n` +
+        `Respond again with only a valid JSON object in this format:\n${format}`;
+    }
+
+    throw new SchemaValidationError(
+      `LLM response did not match schema after ${retries + 1} attempts`,
+      issues,
+      raw,
+      retries + 1
+    );
+  }
+
+  private async sendRequest<T = any>(
+    message: string,
+    options: MessageOptions,
+    requestOptions: RequestOptions
+  ): Promise<ParsedMessageResponse<T>> {
+    const id = options.pluginId ?? this.pendingRequests.createId();
+    const response = this.pendingRequests.wait<T>(id, requestOptions);
+
+    // A queued request could be delivered long after its caller gave up waiting
+    if (typeof PluginMessageHandler === 'undefined') {
+      this.pendingRequests.reject(id, new R1RequestError('PluginMessageHandler not available', 'unavailable', id));
+      return response;
+    }
+
+    try {
+      await this.sendMessage(message, { ...options, pluginId: id });
+    } catch (error) {
+      this.pendingRequests.reject(id, new R1RequestError((error as Error).message, 'unavailable', id));
+    }
+
+    return response;
+  }
+
+  private createJSONMessage(message: string): string {
+    return message.includes('JSON') ? message :
+      `${message}. Please respond with a valid JSON object.`;
+  }
+
+  private createSearchMessage(query: string, options: SearchMessageOptions = {}): string {
+    return JSON.stringify({
+      query: query,
+      useLocation: options.useLocation ?? false,
+      tag: 'search',
+      ...(options.page && options.page > 1 ? { page: options.page } : {})
+    });
+  }
+
   /**
    * Generate audio file from text-to-speech (browser only)
    * Uses Web Speech API to synthesize speech and capture as audio blob
@@ -243,11 +580,18 @@ export class LLMHelpers {
 
   /**
    * Ask LLM about user memories/context
+   * @param options Request timeout and cancellation options
    */
-  async getUserMemories(): Promise<void> {
-    await this.messaging.askLLMJSON(
-      "Tell me what you know about me. Return only a JSON message formatted as {'facts': ['fact1', 'fact2', ...]}"
-    );
+  async getUserMemories(options: RequestOptions = {}): Promise<{ facts: string[] }> {
+    return this.messaging.askLLMJSON('Tell me what you know about me.', {
+      ...options,
+      schema: {
+        type: 'object',
+        properties: {
+          facts: { type: 'array', items: { type: 'string' } }
+        }
+      }
+    });
   }
 
   /**
@@ -265,6 +609,64 @@ export class LLMHelpers {
     await this.messaging.askLLMJSON(message);
   }
 
+  /**
+   * Ask LLM a question about an image
+   * Captures a camera frame unless an image is given, compresses it to fit the byte budget
+   * and waits for the correlated response
+   * @param prompt Question about the image
+   * @param options Image source, compression, LLM and request options
+   */
+  async askAboutImage<T = any>(prompt: string, options: ImageQueryOptions = {}): Promise<ParsedMessageResponse<T>> {
+    const {
+      image, camera, frameTimeout, maxBytes, maxWidth, maxHeight, quality, minQuality, grayscale,
+      ...requestOptions
+    } = options;
+
+    const source = image ?? await this.captureCameraFrame(camera ?? defaultCamera, frameTimeout ?? 5000);
+    const compressed = await MediaUtils.compressImage(source, { maxBytes, maxWidth, maxHeight, quality, minQuality, grayscale });
+
+    return this.messaging.request<T>(prompt, {
+      useLLM: true,
+      ...requestOptions,
+      imageBase64: compressed.base64
+    });
+  }
+
+  private async captureCameraFrame(camera: CameraAPI, timeout: number): Promise<HTMLCanvasElement> {
+    const started = !camera.getStream();
+    if (started) {
+      await camera.start({ facingMode: 'environment' });
+    }
+
+    try {
+      if (!camera.isCapturing()) {
+        const video = camera.createVideoElement();
+        if (video.readyState < 2) {
+          await new Promise<void>((resolve, reject) => {
+            const settle = (error?: Error) => {
+              clearTimeout(timer);
+              video.onloadeddata = null;
+              video.onerror = null;
+              if (error) reject(error);
+              else resolve();
+            };
+            const timer = setTimeout(() => settle(new Error(`Camera frame not available after ${timeout}ms`)), timeout);
+            video.onloadeddata = () => settle();
+            video.onerror = () => settle(new Error('Camera frame not available'));
+          });
+        }
+      }
+
+      const frame = camera.captureFrame();
+      if (!frame) {
+        throw new Error('Failed to capture camera frame');
+      }
+      return frame;
+    } finally {
+      if (started) camera.stop();
+    }
+  }
+
   /**
    * Ask LLM to perform a task and speak the result
    * @param task Task description
@@ -286,11 +688,32 @@ export class LLMHelpers {
   /**
    * Get LLM suggestions for user interface
    * @param context Current UI context
+   * @param options Request timeout and cancellation options
    */
-  async getUISuggestions(context: string): Promise<void> {
-    await this.messaging.askLLMJSON(
-      `Given this UI context: "${context}", provide suggestions for user actions. ` +
-      `Respond with JSON format: {"suggestions": [{"action": "action_name", "description": "description"}]}`
+  async getUISuggestions(
+    context: string,
+    options: RequestOptions = {}
+  ): Promise<{ suggestions: Array<{ action: string; description: string }> }> {
+    return this.messaging.askLLMJSON(
+      `Given this UI context: "${context}", provide suggestions for user actions.`,
+      {
+        ...options,
+        schema: {
+          type: 'object',
+          properties: {
+            suggestions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  action: { type: 'string', description: 'action_name' },
+                  description: { type: 'string' }
+                }
+              }
+            }
+          }
+        }
+      }
     );
   }
 
@@ -304,6 +727,48 @@ export class LLMHelpers {
   }
 }
 
+export { PendingRequests, R1RequestError } from './pending-requests';
+export type { ParsedMessageResponse, RequestOptions, RequestErrorCode } from './pending-requests';
+export { SchemaUtils, SchemaValidationError } from './json-schema';
+export type {
+  ResponseSchema,
+  StringSchema,
+  NumberSchema,
+  BooleanSchema,
+  ArraySchema,
+  ObjectSchema,
+  AnySchema,
+  InferSchema,
+  SchemaIssue
+} from './json-schema';
+
+export { MessageQueue } from './message-queue';
+export type { MessageQueueOptions, QueuedMessage } from './message-queue';
+export { ResponseCache } from './response-cache';
+export type { ResponseCacheOptions, CacheCallOptions, CachedResponse } from './response-cache';
+export { SearchParser, WebSearch } from './search';
+export type {
+  SearchResult,
+  SearchAnswerBox,
+  SearchKnowledgePanel,
+  SearchResponse,
+  SearchOptions
+} from './search';
+export { PushToTalk } from './push-to-talk';
+export type { VoiceState, VoiceCancelReason, PushToTalkOptions, PushToTalkEvents } from './push-to-talk';
+export { ToolRegistry, DeviceTools } from './tools';
+export type { ToolDefinition, ToolCall, AgentStep, AgentOptions, AgentResult } from './tools';
+export { Conversation, ConversationManager } from './conversation';
+export type {
+  ConversationTurn,
+  ConversationSession,
+  ConversationSummary,
+  ConversationOptions
+} from './conversation';
+
 // Export singleton instances
 export const messaging = new R1Messaging();
-export const llmHelpers = new LLMHelpers(messaging);
\ No newline at end of file
+export const llmHelpers = new LLMHelpers(messaging);
+export const conversations = new ConversationManager(messaging, storage);
+export const webSearch = new WebSearch(messaging);
+export const pushToTalk = new PushToTalk(messaging, microphone, hardwareEvents);
\ No newline at end of file
@@ -0,0 +1,253 @@
+/**
+ * Lightweight schemas for structured LLM responses
+ * Describes the expected JSON shape in prompts, extracts JSON from replies and validates it
+ */
+
+interface BaseSchema {
+  optional?: boolean;      // Property may be missing (object properties only)
+  description?: string;    // Hint for the LLM, included in the prompt
+}
+
+export interface StringSchema extends BaseSchema {
+  type: 'string';
+  enum?: readonly string[];
+}
+
+export interface NumberSchema extends BaseSchema {
+  type: 'number' | 'integer';
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface BooleanSchema extends BaseSchema {
+  type: 'boolean';
+}
+
+export interface ArraySchema extends BaseSchema {
+  type: 'array';
+  items: ResponseSchema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectSchema extends BaseSchema {
+  type: 'object';
+  properties: Record<string, ResponseSchema>;
+}
+
+export interface AnySchema extends BaseSchema {
+  type: 'any';
+}
+
+export type ResponseSchema =
+  | StringSchema
+  | NumberSchema
+  | BooleanSchema
+  | ArraySchema
+  | ObjectSchema
+  | AnySchema;
+
+type OptionalKeys<P> = { [K in keyof P]: P[K] extends { optional: true } ? K : never }[keyof P];
+type RequiredKeys<P> = Exclude<keyof P, OptionalKeys<P>>;
+
+/**
+ * TypeScript type described by a schema
+ */
+export type InferSchema<S> =
+  S extends { type: 'string'; enum: readonly (infer E)[] } ? E :
+  S extends { type: 'string' } ? string :
+  S extends { type: 'number' | 'integer' } ? number :
+  S extends { type: 'boolean' } ? boolean :
+  S extends { type: 'array'; items: infer I } ? InferSchema<I>[] :
+  S extends { type: 'object'; properties: infer P } ?
+    { [K in RequiredKeys<P>]: InferSchema<P[K]> } & { [K in OptionalKeys<P>]?: InferSchema<P[K]> } :
+  any;
+
+export interface SchemaIssue {
+  path: string;     // Location of the problem, e.g. "$.suggestions[0].action"
+  message: string;
+}
+
+/**
+ * Error raised when an LLM reply does not match the requested schema
+ */
+export class SchemaValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: SchemaIssue[],
+    public readonly raw: string,
+    public readonly attempts: number
+  ) {
+    super(message);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+/**
+ * Utilities for working with response schemas
+ */
+export class SchemaUtils {
+  /**
+   * Render a schema as an example JSON format for prompts
+   * @param schema Response schema
+   */
+  static describe(schema: ResponseSchema): string {
+    return this.describeNode(schema, '');
+  }
+
+  /**
+   * Extract a JSON value from an LLM reply
+   * Handles bare JSON, fenced code blocks and JSON embedded in surrounding text
+   * @param text Reply text
+   * @returns Parsed value, or undefined if no JSON could be found
+   */
+  static extractJSON(text: string): any {
+    const trimmed = text.trim();
+    const candidates = [trimmed];
+
+    const fence = /```(?:json)?\s*([\s\S]*?)```/i.exec(trimmed);
+    if (fence) {
+      candidates.push(fence[1].trim());
+    }
+
+    const start = trimmed.search(/[{[]/);
+    if (start !== -1) {
+      const end = this.findClosingBracket(trimmed, start);
+      if (end !== -1) {
+        candidates.push(trimmed.slice(start, end + 1));
+      }
+    }
+
+    for (const candidate of candidates) {
+      try {
+        return JSON.parse(candidate);
+      } catch {
+        // Try the next candidate
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Validate a value against a schema
+   * @param value Value to check
+   * @param schema Response schema
+   * @returns List of problems (empty when valid)
+   */
+  static validate(value: any, schema: ResponseSchema): SchemaIssue[] {
+    const issues: SchemaIssue[] = [];
+    this.validateNode(value, schema, '$', issues);
+    return issues;
+  }
+
+  private static describeNode(schema: ResponseSchema, indent: string): string {
+    const inner = `${indent}  `;
+
+    switch (schema.type) {
+      case 'string':
+        return schema.enum ? schema.enum.map(value => JSON.stringify(value)).join(' | ') : '"string"';
+      case 'number':
+      case 'integer':
+        return schema.type;
+      case 'boolean':
+        return 'true | false';
+      case 'array':
+        return `[${this.describeNode(schema.items, indent)}, ...]`;
+      case 'object': {
+        const lines = Object.entries(schema.properties).map(([key, property]) => {
+          const notes = [property.optional ? 'optional' : '', property.description ?? '']
+            .filter(Boolean)
+            .join(', ');
+          const comment = notes ? ` // ${notes}` : '';
+          return `${inner}${JSON.stringify(key)}: ${this.describeNode(property, inner)}${comment}`;
+        });
+        return `{\n${lines.join(',\n')}\n${indent}}`;
+      }
+      default:
+        return 'any';
+    }
+  }
+
+  private static validateNode(value: any, schema: ResponseSchema, path: string, issues: SchemaIssue[]): void {
+    switch (schema.type) {
+      case 'string':
+        if (typeof value !== 'string') {
+          issues.push({ path, message: 'expected a string' });
+        } else if (schema.enum && !schema.enum.includes(value)) {
+          issues.push({ path, message: `expected one of ${schema.enum.map(e => JSON.stringify(e)).join(', ')}` });
+        }
+        break;
+      case 'number':
+      case 'integer':
+        if (typeof value !== 'number' || Number.isNaN(value)) {
+          issues.push({ path, message: 'expected a number' });
+        } else if (schema.type === 'integer' && !Number.isInteger(value)) {
+          issues.push({ path, message: 'expected an integer' });
+        } else if (schema.minimum !== undefined && value < schema.minimum) {
+          issues.push({ path, message: `expected a value >= ${schema.minimum}` });
+        } else if (schema.maximum !== undefined && value > schema.maximum) {
+          issues.push({ path, message: `expected a value <= ${schema.maximum}` });
+        }
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          issues.push({ path, message: 'expected a boolean' });
+        }
+        break;
+      case 'array':
+        if (!Array.isArray(value)) {
+          issues.push({ path, message: 'expected an array' });
+          break;
+        }
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+          issues.push({ path, message: `expected at least ${schema.minItems} items` });
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+          issues.push({ path, message: `expected at most ${schema.maxItems} items` });
+        }
+        value.forEach((item, index) => this.validateNode(item, schema.items, `${path}[${index}]`, issues));
+        break;
+      case 'object':
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+          issues.push({ path, message: 'expected an object' });
+          break;
+        }
+        Object.entries(schema.properties).forEach(([key, property]) => {
+          if (value[key] === undefined) {
+            if (!property.optional) {
+              issues.push({ path: `${path}.${key}`, message: 'missing required property' });
+            }
+            return;
+          }
+          this.validateNode(value[key], property, `${path}.${key}`, issues);
+        });
+        break;
+    }
+  }
+
+  private static findClosingBracket(text: string, start: number): number {
+    const stack: string[] = [];
+    let inString = false;
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+
+      if (inString) {
+        if (char === '\\') i++;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') inString = true;
+      else if (char === '{') stack.push('}');
+      else if (char === '[') stack.push(']');
+      else if (char === '}' || char === ']') {
+        if (stack.pop() !== char) return -1;
+        if (stack.length === 0) return i;
+      }
+    }
+
+    return -1;
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Offline queue for outgoing plugin messages
+ * Keeps unsent payloads in storage and delivers them in order once the host bridge is available
+ */
+
+import type { PluginMessage } from '../types';
+import { R1Storage } from '../storage';
+
+export interface MessageQueueOptions {
+  persist?: boolean;       // Keep pending messages in plain storage (default: true)
+  storageKey?: string;     // Storage key for pending messages (default: 'message_queue')
+  baseDelay?: number;      // First retry delay in milliseconds (default: 1000)
+  maxDelay?: number;       // Upper bound for retry delays (default: 60000)
+  maxAttempts?: number;    // Delivery attempts, including checks that found the bridge unavailable, before an item is dropped (default: unlimited)
+  onDrop?: (item: QueuedMessage) => void;  // Called when an item exceeds maxAttempts
+}
+
+export interface QueuedMessage {
+  id: string;
+  payload: PluginMessage;
+  dedupeKey?: string;
+  attempts: number;
+  createdAt: number;
+}
+
+/**
+ * Ordered, persisted queue of outgoing plugin messages with exponential backoff
+ */
+export class MessageQueue {
+  private items: QueuedMessage[] = [];
+  private counter = 0;
+  private attempts = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private flushing = false;
+  private loaded = false;
+
+  constructor(
+    private send: (payload: PluginMessage) => void,
+    private isAvailable: () => boolean,
+    private storage: R1Storage,
+    private options: MessageQueueOptions = {}
+  ) {}
+
+  /**
+   * Restore persisted messages and try to deliver them
+   */
+  async load(): Promise<void> {
+    if (this.canPersist()) {
+      const stored = await this.storage.plain.getItem<QueuedMessage[]>(this.storageKey);
+      if (stored) {
+        const known = new Set(this.items.map(item => item.id));
+        this.items = [...stored.filter(item => !known.has(item.id)), ...this.items];
+      }
+    }
+    this.loaded = true;
+    await this.flush();
+  }
+
+  /**
+   * Add a message to the queue
+   * @param payload Message payload
+   * @param dedupeKey Skip the message if one with the same key is already pending
+   * @returns The queued item, or the existing item with the same dedupe key
+   */
+  async enqueue(payload: PluginMessage, dedupeKey?: string): Promise<QueuedMessage> {
+    if (dedupeKey) {
+      const existing = this.items.find(item => item.dedupeKey === dedupeKey);
+      if (existing) return existing;
+    }
+
+    this.counter++;
+    const item: QueuedMessage = {
+      id: `msg_${Date.now().toString(36)}_${this.counter}`,
+      payload,
+      dedupeKey,
+      attempts: 0,
+      createdAt: Date.now()
+    };
+
+    this.items.push(item);
+    await this.save();
+    this.schedule(0);
+    return item;
+  }
+
+  /**
+   * Deliver pending messages in order while the bridge is available
+   * @returns Number of messages delivered
+   */
+  async flush(): Promise<number> {
+    if (this.flushing) return 0;
+    this.clearTimer();
+    this.flushing = true;
+    let delivered = 0;
+
+    try {
+      while (this.items.length > 0) {
+        const item = this.items[0];
+
+        if (!this.isAvailable()) {
+          item.attempts++;
+          this.retryLater(item);
+          break;
+        }
+
+        try {
+          item.attempts++;
+          this.send(item.payload);
+        } catch (error) {
+          console.warn('Failed to deliver queued message:', error);
+          this.retryLater(item);
+          break;
+        }
+
+        this.items.shift();
+        this.attempts = 0;
+        delivered++;
+      }
+    } finally {
+      this.flushing = false;
+      await this.save();
+    }
+
+    return delivered;
+  }
+
+  /**
+   * List pending messages in delivery order
+   */
+  list(): QueuedMessage[] {
+    return this.items.map(item => ({ ...item, payload: { ...item.payload } }));
+  }
+
+  /**
+   * Number of pending messages
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Cancel a pending message
+   * @param id Queued message id
+   * @returns Whether a message was removed
+   */
+  async cancel(id: string): Promise<boolean> {
+    const index = this.items.findIndex(item => item.id === id);
+    if (index === -1) return false;
+
+    this.items.splice(index, 1);
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Cancel all pending messages
+   */
+  async clear(): Promise<void> {
+    this.items = [];
+    this.clearTimer();
+    await this.save();
+  }
+
+  /**
+   * Stop retrying (pending messages stay persisted)
+   */
+  dispose(): void {
+    this.clearTimer();
+  }
+
+  private retryLater(item: QueuedMessage): void {
+    const maxAttempts = this.options.maxAttempts ?? Infinity;
+    if (item.attempts >= maxAttempts) {
+      this.items.shift();
+      this.options.onDrop?.(item);
+      if (this.items.length > 0) this.schedule(0);
+      return;
+    }
+
+    const baseDelay = this.options.baseDelay ?? 1000;
+    const maxDelay = this.options.maxDelay ?? 60000;
+    const delay = Math.min(maxDelay, baseDelay * Math.pow(2, this.attempts));
+    this.attempts++;
+    this.schedule(delay);
+  }
+
+  private schedule(delay: number): void {
+    if (!this.loaded) return;
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.flush();
+    }, delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (!this.canPersist()) return;
+
+    try {
+      if (this.items.length > 0) {
+        await this.storage.plain.setItem(this.storageKey, this.items);
+      } else {
+        await this.storage.plain.removeItem(this.storageKey);
+      }
+    } catch (error) {
+      console.warn('Failed to persist message queue:', error);
+    }
+  }
+
+  private canPersist(): boolean {
+    return this.options.persist !== false && R1Storage.isAvailable();
+  }
+
+  private get storageKey(): string {
+    return this.options.storageKey ?? 'message_queue';
+  }
+}
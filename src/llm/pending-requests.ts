@@ -0,0 +1,171 @@
+/**
+ * Request/response correlation for the plugin message bridge
+ * Matches incoming onPluginMessage responses to the requests that caused them
+ */
+
+import type { PluginMessageResponse } from '../types';
+import type { CacheCallOptions } from './response-cache';
+
+/**
+ * Plugin response with the parsed contents of its data field
+ */
+export type ParsedMessageResponse<T = any> = PluginMessageResponse & { parsedData?: T };
+
+export interface RequestOptions {
+  timeout?: number;      // Milliseconds to wait for a response (default: 30000, 0 = no timeout)
+  signal?: AbortSignal;  // Cancels the wait when aborted
+  cache?: CacheCallOptions | false;  // Per-call cache settings when the response cache is enabled; false skips it
+}
+
+export type RequestErrorCode = 'timeout' | 'aborted' | 'unavailable';
+
+/**
+ * Error raised when a correlated request does not produce a response
+ */
+export class R1RequestError extends Error {
+  constructor(message: string, public readonly code: RequestErrorCode, public readonly requestId?: string) {
+    super(message);
+    this.name = 'R1RequestError';
+  }
+}
+
+interface PendingRequest {
+  id: string;
+  resolve: (response: ParsedMessageResponse) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+export const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+const REQUEST_ID_PREFIX = 'r1req_';
+
+/**
+ * Tracks in-flight requests and routes responses to them.
+ *
+ * The host echoes the pluginId of a request in its response, so each request is
+ * tagged with a unique id that responses are matched on. Responses without an
+ * id go to the oldest waiting request, which matches the host's FIFO order.
+ */
+export class PendingRequests {
+  private pending: PendingRequest[] = [];
+  private counter = 0;
+
+  /**
+   * Create a unique correlation id
+   */
+  createId(): string {
+    this.counter++;
+    return `${REQUEST_ID_PREFIX}${Date.now().toString(36)}_${this.counter}`;
+  }
+
+  /**
+   * Register a request and wait for its response
+   * @param id Correlation id sent with the request
+   * @param options Timeout and cancellation options
+   */
+  wait<T = any>(id: string, options: RequestOptions = {}): Promise<ParsedMessageResponse<T>> {
+    return new Promise((resolve, reject) => {
+      const { signal } = options;
+      const timeout = options.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+
+      if (signal?.aborted) {
+        reject(new R1RequestError('Request aborted', 'aborted', id));
+        return;
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const onAbort = () => {
+        this.remove(entry);
+        reject(new R1RequestError('Request aborted', 'aborted', id));
+      };
+
+      const entry: PendingRequest = {
+        id,
+        resolve,
+        reject,
+        cleanup: () => {
+          if (timer !== undefined) clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        }
+      };
+
+      if (timeout > 0) {
+        timer = setTimeout(() => {
+          this.remove(entry);
+          reject(new R1RequestError(`No response received within ${timeout}ms`, 'timeout', id));
+        }, timeout);
+      }
+      signal?.addEventListener('abort', onAbort);
+
+      this.pending.push(entry);
+    });
+  }
+
+  /**
+   * Route a response to its request
+   * @param response Incoming plugin response
+   * @returns Whether a pending request consumed the response
+   */
+  resolve(response: ParsedMessageResponse): boolean {
+    if (this.pending.length === 0) return false;
+
+    let index = 0;
+    if (response.pluginId) {
+      index = this.pending.findIndex(entry => entry.id === response.pluginId);
+      if (index === -1) {
+        // A reply to a request that already timed out or was aborted must not settle another one
+        if (response.pluginId.startsWith(REQUEST_ID_PREFIX)) {
+          console.warn(`Dropping response for unknown request ${response.pluginId}`);
+        }
+        return false;
+      }
+    }
+
+    const [entry] = this.pending.splice(index, 1);
+    entry.cleanup();
+    entry.resolve(response);
+    return true;
+  }
+
+  /**
+   * Reject a pending request
+   * @param id Correlation id
+   * @param error Rejection reason
+   */
+  reject(id: string, error: Error): void {
+    const entry = this.pending.find(pending => pending.id === id);
+    if (entry) {
+      this.remove(entry);
+      entry.reject(error);
+    }
+  }
+
+  /**
+   * Reject every pending request
+   * @param error Rejection reason
+   */
+  rejectAll(error: Error): void {
+    const entries = this.pending;
+    this.pending = [];
+    entries.forEach(entry => {
+      entry.cleanup();
+      entry.reject(error);
+    });
+  }
+
+  /**
+   * Number of requests still waiting for a response
+   */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  private remove(entry: PendingRequest): void {
+    const index = this.pending.indexOf(entry);
+    if (index !== -1) {
+      this.pending.splice(index, 1);
+    }
+    entry.cleanup();
+  }
+}
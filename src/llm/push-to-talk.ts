@@ -0,0 +1,341 @@
+/**
+ * Push-to-talk voice conversation pipeline
+ * Holding the side button records speech, releasing it transcribes the recording
+ * and asks the LLM to answer through the R1 speaker
+ */
+
+import type { HardwareEvents } from '../hardware';
+import type { MicrophoneAPI } from '../media';
+import type { ParsedMessageResponse } from './pending-requests';
+import type { R1Messaging } from './index';
+
+export type VoiceState = 'idle' | 'listening' | 'thinking' | 'speaking';
+
+export type VoiceCancelReason = 'side-click' | 'too-short' | 'no-speech' | 'manual';
+
+export interface PushToTalkOptions {
+  minDuration?: number;          // Shorter presses are discarded in milliseconds (default: 500)
+  maxDuration?: number;          // Recording stops automatically after this many milliseconds (default: 30000)
+  language?: string;             // Speech recognition language (default: 'en-US')
+  useSpeechRecognition?: boolean;  // Use Web Speech recognition when available (default: true)
+  transcribe?: (audio: Blob) => Promise<string>;  // Transcribes the recording when speech recognition is unavailable or hears nothing
+  wantsJournalEntry?: boolean;   // Log the interaction to the journal (default: false)
+  timeout?: number;              // LLM response timeout in milliseconds (default: 30000)
+  wordsPerSecond?: number;       // Speaking rate used to estimate when the R1 finishes speaking (default: 2.5)
+}
+
+export interface PushToTalkEvents {
+  state: (state: VoiceState, previous: VoiceState) => void;
+  transcript: (text: string) => void;
+  response: (response: ParsedMessageResponse) => void;
+  cancel: (reason: VoiceCancelReason) => void;
+  error: (error: Error) => void;
+}
+
+type PushToTalkEvent = keyof PushToTalkEvents;
+
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+/**
+ * Side button driven voice conversation
+ */
+export class PushToTalk {
+  private state: VoiceState = 'idle';
+  private enabled = false;
+  private listeners: Map<PushToTalkEvent, Set<(...args: any[]) => void>> = new Map();
+  private turn = 0;
+  private pressedAt = 0;
+  private maxTimer?: ReturnType<typeof setTimeout>;
+  private speakingTimer?: ReturnType<typeof setTimeout>;
+  private controller?: AbortController;
+  private recognition?: SpeechRecognitionLike;
+  private recognitionDone?: Promise<string>;
+
+  private readonly handlePressStart = () => { this.press(); };
+  private readonly handlePressEnd = () => { this.release(); };
+  private readonly handleSideClick = () => {
+    if (this.state !== 'idle') this.cancel('side-click');
+  };
+
+  constructor(
+    private messaging: R1Messaging,
+    private microphone: MicrophoneAPI,
+    private hardware: HardwareEvents,
+    private options: PushToTalkOptions = {}
+  ) {}
+
+  /**
+   * Start handling side button presses
+   * @param options Pipeline options (merged with the constructor options)
+   */
+  enable(options: PushToTalkOptions = {}): void {
+    this.options = { ...this.options, ...options };
+    if (this.enabled) return;
+
+    this.enabled = true;
+    this.hardware.on('longPressStart', this.handlePressStart);
+    this.hardware.on('longPressEnd', this.handlePressEnd);
+    this.hardware.on('sideClick', this.handleSideClick);
+  }
+
+  /**
+   * Stop handling side button presses and cancel the current turn
+   */
+  disable(): void {
+    if (!this.enabled) return;
+
+    this.enabled = false;
+    this.hardware.off('longPressStart', this.handlePressStart);
+    this.hardware.off('longPressEnd', this.handlePressEnd);
+    this.hardware.off('sideClick', this.handleSideClick);
+    if (this.state !== 'idle') this.cancel('manual');
+  }
+
+  /**
+   * Check if side button handling is enabled
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Get the current pipeline state
+   */
+  getState(): VoiceState {
+    return this.state;
+  }
+
+  /**
+   * Add an event listener
+   * @param event Event name
+   * @param callback Event callback
+   */
+  on<E extends PushToTalkEvent>(event: E, callback: PushToTalkEvents[E]): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  /**
+   * Remove an event listener
+   * @param event Event name
+   * @param callback Callback to remove
+   */
+  off<E extends PushToTalkEvent>(event: E, callback: PushToTalkEvents[E]): void {
+    this.listeners.get(event)?.delete(callback);
+  }
+
+  /**
+   * Start listening (called on long press start)
+   * Interrupts a turn that is still thinking or speaking
+   */
+  async press(): Promise<void> {
+    if (this.state === 'listening') return;
+    if (this.state !== 'idle') this.reset();
+
+    const turn = ++this.turn;
+    this.pressedAt = Date.now();
+    this.setState('listening');
+
+    try {
+      await this.microphone.startRecording();
+    } catch (error) {
+      if (turn === this.turn) this.fail(error);
+      return;
+    }
+    if (turn !== this.turn) {
+      this.stopMicrophone();
+      return;
+    }
+
+    this.startRecognition();
+    this.maxTimer = setTimeout(() => { this.release(); }, this.options.maxDuration ?? 30000);
+  }
+
+  /**
+   * Stop listening and answer (called on long press end or at the maximum length)
+   */
+  async release(): Promise<void> {
+    if (this.state !== 'listening') return;
+
+    const turn = this.turn;
+    const duration = Date.now() - this.pressedAt;
+    this.clearTimers();
+
+    const audio = await this.microphone.stopRecording().catch(() => null);
+    this.microphone.stop();
+    this.recognition?.stop();
+    const recognizing = this.recognitionDone !== undefined;
+    const recognized = this.recognitionDone ? await this.recognitionDone : '';
+    this.recognition = undefined;
+    this.recognitionDone = undefined;
+    if (turn !== this.turn) return;
+
+    if (duration < (this.options.minDuration ?? 500)) {
+      this.cancel('too-short');
+      return;
+    }
+
+    this.controller = new AbortController();
+    this.setState('thinking');
+
+    try {
+      const text = recognized || await this.transcribe(audio, recognizing);
+      if (turn !== this.turn) return;
+      if (!text) {
+        this.cancel('no-speech');
+        return;
+      }
+      this.emit('transcript', text);
+
+      const response = await this.messaging.request(text, {
+        useLLM: true,
+        wantsR1Response: true,
+        wantsJournalEntry: this.options.wantsJournalEntry ?? false,
+        timeout: this.options.timeout,
+        signal: this.controller.signal,
+        // Spoken replies must not be served from the cache
+        cache: false
+      });
+      if (turn !== this.turn) return;
+
+      this.emit('response', response);
+      this.setState('speaking');
+      this.speakingTimer = setTimeout(() => {
+        if (turn === this.turn) this.setState('idle');
+      }, this.estimateSpeakingTime(response.message ?? ''));
+    } catch (error) {
+      if (turn === this.turn) this.fail(error);
+    } finally {
+      if (turn === this.turn) this.controller = undefined;
+    }
+  }
+
+  /**
+   * Cancel the current turn
+   * The host may keep speaking a reply that is already being read out
+   * @param reason Reason passed to cancel listeners
+   */
+  cancel(reason: VoiceCancelReason = 'manual'): void {
+    if (this.state === 'idle') return;
+
+    this.reset();
+    this.setState('idle');
+    this.emit('cancel', reason);
+  }
+
+  private reset(): void {
+    this.turn++;
+    this.clearTimers();
+    this.controller?.abort();
+    this.controller = undefined;
+
+    if (this.state === 'listening') {
+      this.recognition?.abort();
+      this.stopMicrophone();
+    }
+    this.recognition = undefined;
+    this.recognitionDone = undefined;
+  }
+
+  private stopMicrophone(): void {
+    if (this.microphone.getRecordingState() !== 'inactive') {
+      this.microphone.stopRecording().catch(() => {});
+    }
+    this.microphone.stop();
+  }
+
+  private startRecognition(): void {
+    if (this.options.useSpeechRecognition === false || typeof window === 'undefined') return;
+
+    const Recognition = (window as any).SpeechRecognition ?? (window as any).webkitSpeechRecognition;
+    if (!Recognition) return;
+
+    const recognition: SpeechRecognitionLike = new Recognition();
+    recognition.lang = this.options.language ?? 'en-US';
+    recognition.continuous = true;
+    recognition.interimResults = false;
+
+    let transcript = '';
+    this.recognitionDone = new Promise<string>(resolve => {
+      recognition.onresult = (event: any) => {
+        transcript = Array.from(event.results as ArrayLike<any>)
+          .map(result => result[0]?.transcript ?? '')
+          .join(' ');
+      };
+      // Errors fall back to the recorded audio
+      recognition.onerror = () => resolve('');
+      recognition.onend = () => resolve(transcript.trim());
+    });
+
+    try {
+      recognition.start();
+      this.recognition = recognition;
+    } catch (error) {
+      console.warn('Speech recognition failed to start:', error);
+      this.recognitionDone = undefined;
+    }
+  }
+
+  private async transcribe(audio: Blob | null, recognizing: boolean): Promise<string> {
+    if (!this.options.transcribe) {
+      // The host bridge carries text and images only, so a recording can't be sent for transcription
+      if (!recognizing) {
+        throw new Error('Speech recognition is not available; pass a transcribe function to transcribe recordings');
+      }
+      return '';
+    }
+    return audio ? (await this.options.transcribe(audio)).trim() : '';
+  }
+
+  private estimateSpeakingTime(text: string): number {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    return Math.max(1000, (words / (this.options.wordsPerSecond ?? 2.5)) * 1000);
+  }
+
+  private fail(error: unknown): void {
+    this.reset();
+    this.setState('idle');
+    this.emit('error', error instanceof Error ? error : new Error(String(error)));
+  }
+
+  private clearTimers(): void {
+    if (this.maxTimer !== undefined) {
+      clearTimeout(this.maxTimer);
+      this.maxTimer = undefined;
+    }
+    if (this.speakingTimer !== undefined) {
+      clearTimeout(this.speakingTimer);
+      this.speakingTimer = undefined;
+    }
+  }
+
+  private setState(state: VoiceState): void {
+    if (state === this.state) return;
+
+    const previous = this.state;
+    this.state = state;
+    this.emit('state', state, previous);
+  }
+
+  private emit(event: PushToTalkEvent, ...args: any[]): void {
+    this.listeners.get(event)?.forEach(callback => {
+      try {
+        callback(...args);
+      } catch (error) {
+        console.error(`Error in push-to-talk ${event} listener:`, error);
+      }
+    });
+  }
+}
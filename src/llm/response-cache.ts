@@ -0,0 +1,207 @@
+/**
+ * Response cache for LLM and SERP requests
+ * Stores responses in plain storage keyed by a hash of the normalized prompt and options
+ */
+
+import type { PluginMessage } from '../types';
+import { R1Storage } from '../storage';
+import type { ParsedMessageResponse } from './pending-requests';
+
+export interface ResponseCacheOptions {
+  ttl?: number;                   // Default time to live in milliseconds (default: 3600000)
+  staleWhileRevalidate?: number;  // Serve expired entries this long while refreshing (default: 0)
+  maxEntries?: number;            // Entries kept before LRU eviction (default: 50)
+  maxBytes?: number;              // Approximate serialized size kept before LRU eviction (default: 262144)
+  persist?: boolean;              // Store entries in plain storage (default: true)
+  storageKey?: string;            // Prefix for storage keys (default: 'llm_cache')
+}
+
+export interface CacheCallOptions {
+  ttl?: number;                   // Time to live for this response
+  staleWhileRevalidate?: number;  // Stale window for this response
+  bypass?: boolean;               // Skip the cache lookup (the fresh response is still stored)
+}
+
+export interface CachedResponse {
+  response: ParsedMessageResponse;
+  storedAt: number;
+  expiresAt: number;
+  staleUntil: number;
+}
+
+interface CacheIndexEntry {
+  key: string;
+  size: number;
+  lastAccess: number;
+}
+
+/**
+ * LRU cache of plugin responses with TTL and stale-while-revalidate
+ */
+export class ResponseCache {
+  private index: CacheIndexEntry[] = [];
+  private memory: Map<string, CachedResponse> = new Map();
+
+  constructor(private storage: R1Storage, private options: ResponseCacheOptions = {}) {}
+
+  /**
+   * Build a cache key from a message and the options that affect its response
+   * @param message Message text
+   * @param options Message options
+   */
+  static createKey(message: string, options: Omit<PluginMessage, 'message'> = {}): string {
+    const normalized = message.trim().replace(/\s+/g, ' ');
+    const relevant = {
+      useLLM: !!options.useLLM,
+      useSerpAPI: !!options.useSerpAPI,
+      wantsR1Response: !!options.wantsR1Response,
+      wantsJournalEntry: !!options.wantsJournalEntry,
+      image: options.imageBase64 ? ResponseCache.hash(options.imageBase64) : ''
+    };
+    return ResponseCache.hash(`${normalized}|${JSON.stringify(relevant)}`);
+  }
+
+  /**
+   * Restore the cache index from storage
+   */
+  async load(): Promise<void> {
+    if (!this.canPersist()) return;
+    this.index = (await this.storage.plain.getItem<CacheIndexEntry[]>(this.indexKey)) ?? [];
+  }
+
+  /**
+   * Look up a response
+   * @param key Cache key
+   * @returns The entry and whether it is stale, or null when missing or expired
+   */
+  async get(key: string): Promise<{ response: ParsedMessageResponse; stale: boolean } | null> {
+    const indexEntry = this.index.find(entry => entry.key === key);
+    if (!indexEntry) return null;
+
+    const entry = this.memory.get(key) ??
+      (this.canPersist() ? await this.storage.plain.getItem<CachedResponse>(this.entryKey(key)) : null);
+
+    const now = Date.now();
+    if (!entry || now >= entry.staleUntil) {
+      await this.delete(key);
+      return null;
+    }
+
+    // Access times are persisted with the next set or delete rather than on every hit
+    this.memory.set(key, entry);
+    indexEntry.lastAccess = now;
+
+    return { response: entry.response, stale: now >= entry.expiresAt };
+  }
+
+  /**
+   * Store a response
+   * @param key Cache key
+   * @param response Response to cache
+   * @param options Per-call TTL options
+   */
+  async set(key: string, response: ParsedMessageResponse, options: CacheCallOptions = {}): Promise<void> {
+    const now = Date.now();
+    const ttl = options.ttl ?? this.options.ttl ?? 3600000;
+    const staleWhileRevalidate = options.staleWhileRevalidate ?? this.options.staleWhileRevalidate ?? 0;
+    const entry: CachedResponse = {
+      response,
+      storedAt: now,
+      expiresAt: now + ttl,
+      staleUntil: now + ttl + staleWhileRevalidate
+    };
+
+    this.index = this.index.filter(existing => existing.key !== key);
+    this.index.push({ key, size: JSON.stringify(entry).length, lastAccess: now });
+    this.memory.set(key, entry);
+
+    if (this.canPersist()) {
+      await this.storage.plain.setItem(this.entryKey(key), entry);
+    }
+    await this.evict();
+    await this.saveIndex();
+  }
+
+  /**
+   * Remove a cached response
+   * @param key Cache key
+   */
+  async delete(key: string): Promise<void> {
+    this.index = this.index.filter(entry => entry.key !== key);
+    this.memory.delete(key);
+    if (this.canPersist()) {
+      await this.storage.plain.removeItem(this.entryKey(key));
+    }
+    await this.saveIndex();
+  }
+
+  /**
+   * Remove all cached responses
+   */
+  async clear(): Promise<void> {
+    const keys = this.index.map(entry => entry.key);
+    this.index = [];
+    this.memory.clear();
+    if (this.canPersist()) {
+      await Promise.all(keys.map(key => this.storage.plain.removeItem(this.entryKey(key))));
+    }
+    await this.saveIndex();
+  }
+
+  /**
+   * Get cache size statistics
+   */
+  stats(): { entries: number; bytes: number } {
+    return {
+      entries: this.index.length,
+      bytes: this.index.reduce((total, entry) => total + entry.size, 0)
+    };
+  }
+
+  private async evict(): Promise<void> {
+    const maxEntries = this.options.maxEntries ?? 50;
+    const maxBytes = this.options.maxBytes ?? 262144;
+
+    this.index.sort((a, b) => a.lastAccess - b.lastAccess);
+    while (this.index.length > 0 && (this.index.length > maxEntries || this.stats().bytes > maxBytes)) {
+      const [oldest] = this.index.splice(0, 1);
+      this.memory.delete(oldest.key);
+      if (this.canPersist()) {
+        await this.storage.plain.removeItem(this.entryKey(oldest.key));
+      }
+    }
+  }
+
+  private async saveIndex(): Promise<void> {
+    if (!this.canPersist()) return;
+    await this.storage.plain.setItem(this.indexKey, this.index);
+  }
+
+  private canPersist(): boolean {
+    return this.options.persist !== false && R1Storage.isAvailable();
+  }
+
+  private entryKey(key: string): string {
+    return `${this.options.storageKey ?? 'llm_cache'}_${key}`;
+  }
+
+  private get indexKey(): string {
+    return `${this.options.storageKey ?? 'llm_cache'}_index`;
+  }
+
+  /**
+   * 53-bit string hash (cyrb53), rendered in base 36
+   */
+  private static hash(value: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < value.length; i++) {
+      const char = value.charCodeAt(i);
+      h1 = Math.imul(h1 ^ char, 2654435761);
+      h2 = Math.imul(h2 ^ char, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Structured web search on top of the SERP API
+ * Normalizes SERP responses into typed results and supports paging and refinement
+ */
+
+import type { ParsedMessageResponse, RequestOptions } from './pending-requests';
+import type { R1Messaging, MessageOptions } from './index';
+
+export interface SearchResult {
+  title: string;
+  snippet: string;
+  url: string;
+  position: number;     // 1-based rank across pages
+}
+
+export interface SearchAnswerBox {
+  title?: string;
+  answer?: string;
+  snippet?: string;
+  url?: string;
+}
+
+export interface SearchKnowledgePanel {
+  title?: string;
+  type?: string;
+  description?: string;
+  url?: string;
+  attributes: Record<string, string>;
+}
+
+export interface SearchResponse {
+  query: string;
+  page: number;
+  useLocation: boolean;
+  results: SearchResult[];
+  answerBox?: SearchAnswerBox;
+  knowledgePanel?: SearchKnowledgePanel;
+  raw: ParsedMessageResponse;
+}
+
+export interface SearchOptions extends Omit<MessageOptions, 'useSerpAPI'>, RequestOptions {
+  useLocation?: boolean;  // Let the search use the device location (default: false)
+  page?: number;          // 1-based results page (default: 1)
+}
+
+const RESULT_LIST_KEYS = ['organic_results', 'organicResults', 'organic', 'results', 'items', 'webPages', 'value'];
+const ANSWER_BOX_KEYS = ['answer_box', 'answerBox', 'featured_snippet', 'featuredSnippet'];
+const KNOWLEDGE_KEYS = ['knowledge_graph', 'knowledgeGraph', 'knowledge_panel', 'knowledgePanel'];
+
+/**
+ * Tolerant parser for SERP response shapes
+ */
+export class SearchParser {
+  /**
+   * Normalize a SERP response
+   * @param response Plugin response to a SERP request
+   * @param query Query that was searched
+   * @param page Page that was requested
+   */
+  static parse(response: ParsedMessageResponse, query: string = '', page: number = 1): Omit<SearchResponse, 'useLocation'> {
+    const data = this.getData(response);
+    const offset = (page - 1) * 10;
+
+    const results = this.findResultList(data)
+      .map(item => this.toResult(item))
+      .filter((result): result is Omit<SearchResult, 'position'> => !!result)
+      .map((result, index) => ({ ...result, position: offset + index + 1 }));
+
+    return {
+      query,
+      page,
+      results,
+      answerBox: this.findAnswerBox(data),
+      knowledgePanel: this.findKnowledgePanel(data),
+      raw: response
+    };
+  }
+
+  private static getData(response: ParsedMessageResponse): any {
+    if (response.parsedData && typeof response.parsedData === 'object') {
+      return response.parsedData;
+    }
+    for (const text of [response.data, response.message]) {
+      if (!text) continue;
+      try {
+        const parsed = JSON.parse(text);
+        if (parsed && typeof parsed === 'object') return parsed;
+      } catch {
+        // Not JSON, try the next field
+      }
+    }
+    return {};
+  }
+
+  private static findResultList(data: any, depth: number = 0): any[] {
+    if (Array.isArray(data)) return data;
+    if (!data || typeof data !== 'object' || depth > 3) return [];
+
+    for (const key of RESULT_LIST_KEYS) {
+      const value = data[key];
+      if (Array.isArray(value)) return value;
+      if (value && typeof value === 'object') {
+        const nested = this.findResultList(value, depth + 1);
+        if (nested.length > 0) return nested;
+      }
+    }
+
+    // Some hosts wrap the SERP payload (e.g. { data: {...} } or { response: {...} })
+    for (const value of Object.values(data)) {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        const nested = this.findResultList(value, depth + 1);
+        if (nested.length > 0) return nested;
+      }
+    }
+    return [];
+  }
+
+  private static toResult(item: any): Omit<SearchResult, 'position'> | null {
+    if (!item || typeof item !== 'object') return null;
+
+    const title = this.pickString(item, ['title', 'name', 'heading']);
+    const url = this.pickString(item, ['url', 'link', 'href', 'displayUrl', 'displayed_link']);
+    if (!title && !url) return null;
+
+    return {
+      title: title || url,
+      snippet: this.pickString(item, ['snippet', 'description', 'content', 'summary', 'text']),
+      url
+    };
+  }
+
+  private static findAnswerBox(data: any): SearchAnswerBox | undefined {
+    const box = this.pickObject(data, ANSWER_BOX_KEYS);
+    if (!box) return undefined;
+
+    return {
+      title: this.pickString(box, ['title', 'question']) || undefined,
+      answer: this.pickString(box, ['answer', 'result', 'value']) || undefined,
+      snippet: this.pickString(box, ['snippet', 'description', 'text']) || undefined,
+      url: this.pickString(box, ['url', 'link']) || undefined
+    };
+  }
+
+  private static findKnowledgePanel(data: any): SearchKnowledgePanel | undefined {
+    const panel = this.pickObject(data, KNOWLEDGE_KEYS);
+    if (!panel) return undefined;
+
+    const known = ['title', 'name', 'type', 'description', 'url', 'website', 'link'];
+    const attributes: Record<string, string> = {};
+    Object.entries(panel).forEach(([key, value]) => {
+      if (!known.includes(key) && (typeof value === 'string' || typeof value === 'number')) {
+        attributes[key] = String(value);
+      }
+    });
+    if (panel.attributes && typeof panel.attributes === 'object') {
+      Object.entries(panel.attributes).forEach(([key, value]) => {
+        attributes[key] = String(value);
+      });
+    }
+
+    return {
+      title: this.pickString(panel, ['title', 'name']) || undefined,
+      type: this.pickString(panel, ['type']) || undefined,
+      description: this.pickString(panel, ['description']) || undefined,
+      url: this.pickString(panel, ['url', 'website', 'link']) || undefined,
+      attributes
+    };
+  }
+
+  private static pickObject(data: any, keys: string[], depth: number = 0): any {
+    if (!data || typeof data !== 'object' || depth > 3) return undefined;
+
+    for (const key of keys) {
+      if (data[key] && typeof data[key] === 'object' && !Array.isArray(data[key])) {
+        return data[key];
+      }
+    }
+    for (const value of Object.values(data)) {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        const nested = this.pickObject(value, keys, depth + 1);
+        if (nested) return nested;
+      }
+    }
+    return undefined;
+  }
+
+  private static pickString(item: any, keys: string[]): string {
+    for (const key of keys) {
+      const value = item[key];
+      if (typeof value === 'string' && value.trim()) return value.trim();
+      if (typeof value === 'number') return String(value);
+    }
+    return '';
+  }
+}
+
+/**
+ * Typed web search API
+ */
+export class WebSearch {
+  constructor(private messaging: R1Messaging) {}
+
+  /**
+   * Search the web and return normalized results
+   * @param query Search query
+   * @param options Location, page, message and request options
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
+    const { useLocation = false, page = 1, ...requestOptions } = options;
+    const response = await this.messaging.searchWebAndWait(query, { ...requestOptions, useLocation, page });
+
+    return { ...SearchParser.parse(response, query, page), useLocation };
+  }
+
+  /**
+   * Fetch the next page of a previous search
+   * @param previous Previous search response
+   * @param options Request options
+   */
+  async nextPage(previous: SearchResponse, options: RequestOptions = {}): Promise<SearchResponse> {
+    return this.search(previous.query, {
+      ...options,
+      useLocation: previous.useLocation,
+      page: previous.page + 1
+    });
+  }
+
+  /**
+   * Run a follow-up query that narrows a previous search
+   * @param previous Previous search response
+   * @param refinement Additional terms, e.g. "open now" or "reviews"
+   * @param options Request options
+   */
+  async refine(previous: SearchResponse, refinement: string, options: RequestOptions = {}): Promise<SearchResponse> {
+    return this.search(`${previous.query} ${refinement}`.trim(), {
+      ...options,
+      useLocation: previous.useLocation
+    });
+  }
+}
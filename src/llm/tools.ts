@@ -0,0 +1,222 @@
+/**
+ * Tool/function calling for the plugin LLM
+ * Describes registered tools in the prompt, detects tool-call JSON in replies and runs the handlers
+ */
+
+import { SchemaUtils } from './json-schema';
+import type { InferSchema, ObjectSchema } from './json-schema';
+import type { ParsedMessageResponse, RequestOptions } from './pending-requests';
+import type { LLMOptions } from './index';
+import type { R1Storage } from '../storage';
+import type { CameraAPI, SpeakerAPI } from '../media';
+
+export interface ToolDefinition<S extends ObjectSchema = ObjectSchema> {
+  name: string;
+  description: string;
+  parameters: S;
+  handler: (args: InferSchema<S>) => any | Promise<any>;
+}
+
+export interface ToolCall {
+  tool: string;
+  arguments: Record<string, any>;
+}
+
+export interface AgentStep {
+  call: ToolCall;
+  result?: any;
+  error?: string;
+}
+
+export interface AgentOptions extends LLMOptions, RequestOptions {
+  maxSteps?: number;       // Tool calls allowed before giving up (default: 5)
+  tools?: string[];        // Restrict the loop to these registered tools
+  systemPrompt?: string;   // Instructions placed before the tool list
+}
+
+export interface AgentResult {
+  answer: string;                        // Final answer text (empty if the step limit was hit)
+  stopReason: 'answer' | 'step_limit';
+  steps: AgentStep[];
+  response: ParsedMessageResponse;       // Last response received
+}
+
+/**
+ * Registry of tools the LLM may call
+ */
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition<any>> = new Map();
+
+  /**
+   * Register a tool, replacing any tool with the same name
+   * @param tool Tool definition
+   */
+  register<const S extends ObjectSchema>(tool: ToolDefinition<S>): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Remove a tool
+   * @param name Tool name
+   */
+  unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
+  /**
+   * Get a registered tool
+   * @param name Tool name
+   */
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * List registered tool names
+   */
+  list(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  /**
+   * Describe tools for the prompt
+   * @param names Tools to include (default: all)
+   */
+  describe(names: string[] = this.list()): string {
+    const lines = names
+      .map(name => this.tools.get(name))
+      .filter((tool): tool is ToolDefinition => !!tool)
+      .map(tool => `- ${tool.name}: ${tool.description}\n  arguments: ${SchemaUtils.describe(tool.parameters).replace(/\n/g, '\n  ')}`);
+
+    return [
+      'You can use these tools:',
+      ...lines,
+      'To use a tool, reply with only a JSON object: {"tool": "<name>", "arguments": {...}}',
+      'When you have the final answer, reply with plain text and no tool JSON.'
+    ].join('\n');
+  }
+
+  /**
+   * Find a tool call in a response
+   * Only JSON naming a registered tool counts, so ordinary JSON answers aren't mistaken for calls
+   * @param response Plugin response
+   * @returns The tool call, or null if the response is a final answer
+   */
+  parseToolCall(response: ParsedMessageResponse): ToolCall | null {
+    const candidates = [response.parsedData, response.data, response.message]
+      .map(candidate => typeof candidate === 'string' ? SchemaUtils.extractJSON(candidate) : candidate);
+
+    for (const candidate of candidates) {
+      if (candidate && typeof candidate === 'object' && typeof candidate.tool === 'string' && this.tools.has(candidate.tool)) {
+        return {
+          tool: candidate.tool,
+          arguments: candidate.arguments && typeof candidate.arguments === 'object' ? candidate.arguments : {}
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate arguments and run a tool
+   * Errors are captured in the step so they can be reported back to the LLM
+   * @param call Tool call
+   * @param allowed Tools the call may use (default: all)
+   */
+  async execute(call: ToolCall, allowed: string[] = this.list()): Promise<AgentStep> {
+    const tool = allowed.includes(call.tool) ? this.tools.get(call.tool) : undefined;
+    if (!tool) {
+      return { call, error: `Unknown tool "${call.tool}"` };
+    }
+
+    const issues = SchemaUtils.validate(call.arguments, tool.parameters);
+    if (issues.length > 0) {
+      return { call, error: `Invalid arguments: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}` };
+    }
+
+    try {
+      return { call, result: await tool.handler(call.arguments) };
+    } catch (error) {
+      return { call, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+/**
+ * Ready-made tools exposing device functions to the LLM
+ */
+export class DeviceTools {
+  /**
+   * Read and write plain storage
+   * @param storage Storage instance
+   */
+  static storage(storage: R1Storage): ToolDefinition[] {
+    return [
+      {
+        name: 'storage_get',
+        description: 'Read a value saved by this plugin',
+        parameters: { type: 'object', properties: { key: { type: 'string' } } },
+        handler: async ({ key }) => ({ value: await storage.plain.getItem(key) })
+      },
+      {
+        name: 'storage_set',
+        description: 'Save a value for this plugin',
+        parameters: { type: 'object', properties: { key: { type: 'string' }, value: { type: 'any' } } },
+        handler: async ({ key, value }) => {
+          await storage.plain.setItem(key, value);
+          return { saved: true };
+        }
+      }
+    ];
+  }
+
+  /**
+   * Capture a photo; the image is attached to the next LLM request
+   * @param camera Camera instance (must be started)
+   */
+  static camera(camera: CameraAPI): ToolDefinition[] {
+    return [
+      {
+        name: 'camera_capture_photo',
+        description: 'Take a photo with the camera and look at it',
+        parameters: { type: 'object', properties: {} },
+        handler: () => {
+          // Reported back to the LLM as the tool's error
+          if (!camera.isCapturing()) {
+            throw new Error('Camera is not started; the plugin must start the camera before photos can be taken');
+          }
+          const dataUrl = camera.capturePhoto();
+          if (!dataUrl) {
+            throw new Error('Photo capture failed');
+          }
+          return { captured: true, imageBase64: dataUrl.split(',')[1] };
+        }
+      }
+    ];
+  }
+
+  /**
+   * Play tones on the speaker
+   * @param speaker Speaker instance
+   */
+  static speaker(speaker: SpeakerAPI): ToolDefinition[] {
+    return [
+      {
+        name: 'speaker_play_tone',
+        description: 'Play a tone on the speaker',
+        parameters: {
+          type: 'object',
+          properties: {
+            frequency: { type: 'number', minimum: 20, maximum: 20000, description: 'Hz' },
+            duration: { type: 'number', minimum: 1, maximum: 5000, description: 'milliseconds' }
+          }
+        },
+        handler: async ({ frequency, duration }) => {
+          await speaker.playTone(frequency, duration);
+          return { played: true };
+        }
+      }
+    ];
+  }
+}
@@ -37,6 +37,33 @@ export interface RecordingOptions {
 // Add missing RecordingState type
 export type RecordingState = 'inactive' | 'recording' | 'paused';
 
+export type ImageSource = Blob | HTMLVideoElement | HTMLCanvasElement | HTMLImageElement | string;
+
+interface LoadedImage {
+  drawable: CanvasImageSource;
+  width: number;
+  height: number;
+  release: () => void;   // Frees the object URL created for a Blob source
+}
+
+export interface ImageCompressionOptions {
+  maxBytes?: number;     // Budget for the Base64 payload length (default: 150000)
+  maxWidth?: number;     // Starting maximum width (default: 640)
+  maxHeight?: number;    // Starting maximum height (default: 640)
+  quality?: number;      // Starting JPEG quality (default: 0.8)
+  minQuality?: number;   // Lowest JPEG quality tried at each size (default: 0.4)
+  grayscale?: boolean;   // Convert to grayscale before encoding (default: false)
+}
+
+export interface CompressedImage {
+  base64: string;        // Base64 JPEG data without the data URL prefix
+  mimeType: string;
+  width: number;
+  height: number;
+  quality: number;
+  bytes: number;         // Length of the Base64 payload
+}
+
 /**
  * Camera API for R1 device
  */
@@ -128,21 +155,39 @@ export class CameraAPI {
    * Capture photo from camera stream
    * @param width Image width (default: 240)
    * @param height Image height (default: 282)
+   * @param quality JPEG quality (default: 0.8)
+   */
+  capturePhoto(width: number = 240, height: number = 282, quality: number = 0.8): string | null {
+    const canvas = this.captureFrame(width, height);
+    return canvas ? canvas.toDataURL('image/jpeg', quality) : null;
+  }
+
+  /**
+   * Capture the current frame to a canvas
+   * @param width Canvas width (default: native video width)
+   * @param height Canvas height (default: native video height)
    */
-  capturePhoto(width: number = 240, height: number = 282): string | null {
+  captureFrame(width?: number, height?: number): HTMLCanvasElement | null {
     if (!this.videoElement || !this.stream) {
       throw new Error('Camera not started');
     }
 
     const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
+    canvas.width = width ?? (this.videoElement.videoWidth || 240);
+    canvas.height = height ?? (this.videoElement.videoHeight || 282);
 
     const context = canvas.getContext('2d');
     if (!context) return null;
 
-    context.drawImage(this.videoElement, 0, 0, width, height);
-    return canvas.toDataURL('image/jpeg', 0.8);
+    context.drawImage(this.videoElement, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  }
+
+  /**
+   * Check if the camera has a stream and video element ready for capture
+   */
+  isCapturing(): boolean {
+    return !!this.stream && !!this.videoElement;
   }
 
   /**
@@ -444,6 +489,99 @@ export class MediaUtils {
     });
   }
 
+  /**
+   * Compress an image to fit a Base64 payload budget
+   * Lowers JPEG quality first, then resolution, until the payload fits
+   * @param source Blob, data URL, video, canvas or image element
+   * @param options Size, quality and color options
+   */
+  static async compressImage(source: ImageSource, options: ImageCompressionOptions = {}): Promise<CompressedImage> {
+    const maxBytes = options.maxBytes ?? 150000;
+    const startQuality = options.quality ?? 0.8;
+    const minQuality = options.minQuality ?? 0.4;
+
+    const { drawable, width: sourceWidth, height: sourceHeight, release } = await this.loadImage(source);
+
+    try {
+      let scale = Math.min(1, (options.maxWidth ?? 640) / sourceWidth, (options.maxHeight ?? 640) / sourceHeight);
+
+      while (true) {
+        const width = Math.max(1, Math.round(sourceWidth * scale));
+        const height = Math.max(1, Math.round(sourceHeight * scale));
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+
+        const context = canvas.getContext('2d');
+        if (!context) {
+          throw new Error('Canvas 2D context not available');
+        }
+        context.drawImage(drawable, 0, 0, width, height);
+        if (options.grayscale) {
+          this.applyGrayscale(context, width, height);
+        }
+
+        for (let quality = startQuality; quality >= minQuality - 1e-9; quality -= 0.1) {
+          const base64 = canvas.toDataURL('image/jpeg', quality).split(',')[1] ?? '';
+          if (base64.length <= maxBytes) {
+            return { base64, mimeType: 'image/jpeg', width, height, quality: Math.round(quality * 100) / 100, bytes: base64.length };
+          }
+        }
+
+        if (width <= 32 || height <= 32) {
+          throw new Error(`Unable to compress image under ${maxBytes} bytes`);
+        }
+        scale *= 0.75;
+      }
+    } finally {
+      release();
+    }
+  }
+
+  private static async loadImage(source: ImageSource): Promise<LoadedImage> {
+    if (typeof source === 'string') {
+      return this.loadImageURL(source, () => {});
+    }
+    if (source instanceof Blob) {
+      const url = URL.createObjectURL(source);
+      return this.loadImageURL(url, () => URL.revokeObjectURL(url));
+    }
+
+    // Only element sources are left, so the DOM element classes exist
+    if (source instanceof HTMLVideoElement) {
+      return { drawable: source, width: source.videoWidth, height: source.videoHeight, release: () => {} };
+    }
+    if (source instanceof HTMLCanvasElement) {
+      return { drawable: source, width: source.width, height: source.height, release: () => {} };
+    }
+    return { drawable: source, width: source.naturalWidth, height: source.naturalHeight, release: () => {} };
+  }
+
+  private static async loadImageURL(url: string, release: () => void): Promise<LoadedImage> {
+    try {
+      const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+        const element = new Image();
+        element.onload = () => resolve(element);
+        element.onerror = () => reject(new Error('Failed to load image'));
+        element.src = url;
+      });
+      return { drawable: image, width: image.naturalWidth, height: image.naturalHeight, release };
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  private static applyGrayscale(context: CanvasRenderingContext2D, width: number, height: number): void {
+    const imageData = context.getImageData(0, 0, width, height);
+    const pixels = imageData.data;
+    for (let i = 0; i < pixels.length; i += 4) {
+      const luminance = Math.round(0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2]);
+      pixels[i] = pixels[i + 1] = pixels[i + 2] = luminance;
+    }
+    context.putImageData(imageData, 0, 0);
+  }
+
   /**
    * Convert base64 string to blob
    * @param base64 Base64 string
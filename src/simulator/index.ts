@@ -0,0 +1,415 @@
+/**
+ * Host bridge simulator for running plugins outside the R1
+ * Provides the globals the R1 host injects so plugins can be developed and tested
+ * in a desktop browser or in Node with a DOM shim (e.g. jsdom)
+ */
+
+import type {
+  AccelerometerData,
+  AccelerometerOptions,
+  HardwareEventType,
+  PluginMessage,
+  PluginMessageResponse,
+  StorageAPI,
+  TouchEvent
+} from '../types';
+
+/**
+ * Response produced by a simulated responder
+ * A plain string is used as the response message
+ */
+export type SimulatedResponse = Partial<PluginMessageResponse> | string;
+
+/**
+ * Produces responses for outgoing plugin messages; return null to stay silent
+ */
+export type MessageResponder = (message: PluginMessage) => SimulatedResponse | null | Promise<SimulatedResponse | null>;
+
+export interface SimulatorOptions {
+  window?: any;                  // Window to install into (default: global window)
+  responder?: MessageResponder;  // Answers LLM/SERP messages (default: canned responses)
+  responseDelay?: number;        // Milliseconds before responses are delivered (default: 0)
+  secureStorage?: boolean;       // Provide secure storage (default: true)
+  accelerometer?: boolean;       // Report the accelerometer as available (default: true)
+  onError?: (error: unknown, raw: string) => void;  // Called when a plugin message can't be handled (default: console.error)
+}
+
+export interface AccelerometerScriptOptions {
+  interval?: number;   // Milliseconds between samples (default: sensor frequency or 60Hz)
+  loop?: boolean;      // Repeat the script until stopped
+}
+
+/**
+ * In-memory StorageAPI implementation
+ */
+export class MemoryStorage implements StorageAPI {
+  private data: Map<string, string> = new Map();
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.data.set(key, String(value));
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.data.has(key) ? this.data.get(key)! : null;
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.data.clear();
+  }
+
+  /**
+   * List stored keys (simulator only, not part of the host API)
+   */
+  keys(): string[] {
+    return Array.from(this.data.keys());
+  }
+
+  /**
+   * Number of stored entries
+   */
+  get size(): number {
+    return this.data.size;
+  }
+}
+
+/**
+ * Simulated accelerometer sensor driven by scripted samples
+ */
+export class SimulatedAccelerometer {
+  private callback?: (data: AccelerometerData) => void;
+  private options: AccelerometerOptions = {};
+  private timer?: ReturnType<typeof setTimeout>;
+  private resolveScript?: () => void;
+  private stopping = false;
+
+  constructor(public available: boolean = true) {}
+
+  async isAvailable(): Promise<boolean> {
+    return this.available;
+  }
+
+  start(callback: (data: AccelerometerData) => void, options: AccelerometerOptions = {}): void {
+    this.callback = callback;
+    this.options = options;
+    this.stopping = false;
+  }
+
+  stop(): void {
+    this.callback = undefined;
+
+    // The SDK restarts the sensor to change its frequency; a start in the same turn keeps the script running
+    this.stopping = true;
+    queueMicrotask(() => {
+      if (!this.stopping) return;
+      this.stopping = false;
+      this.cancelScript();
+    });
+  }
+
+  /**
+   * Whether a plugin is currently listening
+   */
+  isActive(): boolean {
+    return !!this.callback;
+  }
+
+  /**
+   * Frequency requested by the listening plugin
+   */
+  getFrequency(): number | undefined {
+    return this.options.frequency;
+  }
+
+  /**
+   * Deliver a single sample to the listening plugin
+   * @param sample Accelerometer reading
+   */
+  emit(sample: AccelerometerData): void {
+    this.callback?.(sample);
+  }
+
+  /**
+   * Deliver a sequence of samples at a steady interval
+   * @param samples Samples to play
+   * @param options Interval and looping options
+   * @returns Promise resolving when the script finishes or is cancelled
+   */
+  play(samples: AccelerometerData[], options: AccelerometerScriptOptions = {}): Promise<void> {
+    this.cancelScript();
+    const interval = options.interval ?? 1000 / (this.options.frequency || 60);
+
+    return new Promise(resolve => {
+      let index = 0;
+      const tick = () => {
+        if (index >= samples.length) {
+          if (!options.loop || samples.length === 0) {
+            this.timer = undefined;
+            this.resolveScript = undefined;
+            resolve();
+            return;
+          }
+          index = 0;
+        }
+        this.emit(samples[index++]);
+        this.timer = setTimeout(tick, interval);
+      };
+
+      this.resolveScript = resolve;
+      tick();
+    });
+  }
+
+  /**
+   * Stop a running script
+   */
+  cancelScript(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.resolveScript?.();
+    this.resolveScript = undefined;
+  }
+}
+
+/**
+ * Default responder with canned LLM and SERP answers
+ * @param message Outgoing plugin message
+ */
+export const defaultResponder: MessageResponder = (message) => {
+  if (message.useSerpAPI) {
+    return { message: 'Simulated search results', data: JSON.stringify({ results: [] }) };
+  }
+  if (message.useLLM) {
+    return `Simulated response to: ${message.message}`;
+  }
+  return null;
+};
+
+/**
+ * Simulated R1 host
+ */
+export class R1Simulator {
+  readonly storage: { plain: MemoryStorage; secure: MemoryStorage };
+  readonly accelerometer: SimulatedAccelerometer;
+
+  /** Outgoing PluginMessageHandler payloads, in order */
+  readonly sentMessages: PluginMessage[] = [];
+  /** Outgoing TouchEventHandler payloads, in order */
+  readonly touchEvents: TouchEvent[] = [];
+
+  private installed = false;
+  private closed = false;
+  private responder: MessageResponder;
+  private previous: Record<string, { exists: boolean; value: any }> = {};
+
+  constructor(private options: SimulatorOptions = {}) {
+    this.storage = { plain: new MemoryStorage(), secure: new MemoryStorage() };
+    this.accelerometer = new SimulatedAccelerometer(options.accelerometer ?? true);
+    this.responder = options.responder ?? defaultResponder;
+  }
+
+  /**
+   * Install the simulated host globals
+   */
+  install(): this {
+    if (this.installed) return this;
+
+    const win = this.getWindow();
+    const globals: Record<string, any> = {
+      PluginMessageHandler: {
+        postMessage: (message: string) => {
+          this.handlePluginMessage(message).catch(error => this.reportError(error, message));
+        }
+      },
+      closeWebView: { postMessage: () => { this.closed = true; } },
+      TouchEventHandler: { postMessage: (message: string) => this.touchEvents.push(JSON.parse(message)) }
+    };
+    const windowProperties: Record<string, any> = {
+      creationStorage: this.options.secureStorage === false
+        ? { plain: this.storage.plain }
+        : this.storage,
+      creationSensors: { accelerometer: this.accelerometer }
+    };
+
+    // Host handlers are bare globals; a DOM shim's window may be a separate object
+    Object.entries(globals).forEach(([name, value]) => {
+      this.replace('global', name, value);
+      if (win !== globalThis) this.replace('window', name, value);
+    });
+    Object.entries(windowProperties).forEach(([name, value]) => this.replace('window', name, value));
+
+    this.installed = true;
+    return this;
+  }
+
+  /**
+   * Remove the simulated globals and restore previous values
+   */
+  uninstall(): void {
+    if (!this.installed) return;
+
+    const win = this.getWindow();
+    Object.entries(this.previous).forEach(([key, { exists, value }]) => {
+      const [scope, name] = key.split(':');
+      const target: any = scope === 'global' ? globalThis : win;
+      if (exists) target[name] = value;
+      else delete target[name];
+    });
+
+    this.accelerometer.stop();
+    this.previous = {};
+    this.installed = false;
+  }
+
+  /**
+   * Whether the simulator is installed
+   */
+  isInstalled(): boolean {
+    return this.installed;
+  }
+
+  /**
+   * Whether the plugin asked to close the webview
+   */
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Replace the LLM/SERP responder
+   * @param responder Function producing responses for outgoing messages
+   */
+  setResponder(responder: MessageResponder): void {
+    this.responder = responder;
+  }
+
+  /**
+   * Deliver a response to the plugin's onPluginMessage handler
+   * @param response Response (a string is used as the message)
+   */
+  respond(response: SimulatedResponse): void {
+    const full: PluginMessageResponse = typeof response === 'string'
+      ? { message: response, pluginId: '' }
+      : { message: '', pluginId: '', ...response };
+    this.getWindow().onPluginMessage?.(full);
+  }
+
+  /**
+   * Dispatch a side button click
+   */
+  sideClick(): void {
+    this.dispatchHardwareEvent('sideClick');
+  }
+
+  /**
+   * Dispatch a long press start event
+   */
+  longPressStart(): void {
+    this.dispatchHardwareEvent('longPressStart');
+  }
+
+  /**
+   * Dispatch a long press end event
+   */
+  longPressEnd(): void {
+    this.dispatchHardwareEvent('longPressEnd');
+  }
+
+  /**
+   * Hold the side button for a duration
+   * @param duration Hold duration in milliseconds
+   */
+  async longPress(duration: number = 1000): Promise<void> {
+    this.longPressStart();
+    await new Promise(resolve => setTimeout(resolve, duration));
+    this.longPressEnd();
+  }
+
+  /**
+   * Turn the scroll wheel
+   * @param direction Scroll direction
+   * @param ticks Number of detents
+   */
+  scroll(direction: 'up' | 'down', ticks: number = 1): void {
+    for (let i = 0; i < ticks; i++) {
+      this.dispatchHardwareEvent(direction === 'up' ? 'scrollUp' : 'scrollDown');
+    }
+  }
+
+  /**
+   * Dispatch a hardware event on the window
+   * @param type Hardware event type
+   */
+  dispatchHardwareEvent(type: HardwareEventType): void {
+    const win = this.getWindow();
+    const EventClass = win.CustomEvent ?? win.Event ?? Event;
+    win.dispatchEvent(new EventClass(type));
+  }
+
+  /**
+   * Clear recorded messages and touch events
+   */
+  reset(): void {
+    this.sentMessages.length = 0;
+    this.touchEvents.length = 0;
+    this.closed = false;
+  }
+
+  private async handlePluginMessage(raw: string): Promise<void> {
+    const message: PluginMessage = JSON.parse(raw);
+    this.sentMessages.push(message);
+
+    const result = await this.responder(message);
+    if (result === null || result === undefined) return;
+
+    const response: SimulatedResponse = typeof result === 'string'
+      ? { message: result, pluginId: message.pluginId ?? '' }
+      : { pluginId: message.pluginId ?? '', ...result };
+
+    setTimeout(() => this.respond(response), this.options.responseDelay ?? 0);
+  }
+
+  /**
+   * Report a failure to handle a plugin message (malformed JSON or a throwing responder)
+   */
+  private reportError(error: unknown, raw: string): void {
+    if (this.options.onError) {
+      this.options.onError(error, raw);
+    } else {
+      console.error('R1Simulator failed to handle plugin message:', error);
+    }
+  }
+
+  private replace(scope: 'global' | 'window', name: string, value: any): void {
+    const target: any = scope === 'global' ? globalThis : this.getWindow();
+    const key = `${scope}:${name}`;
+    if (!(key in this.previous)) {
+      this.previous[key] = { exists: name in target, value: target[name] };
+    }
+    target[name] = value;
+  }
+
+  private getWindow(): any {
+    const win = this.options.window ?? (typeof window !== 'undefined' ? window : undefined);
+    if (!win || typeof win.dispatchEvent !== 'function') {
+      throw new Error('R1Simulator requires a window. In Node, install a DOM shim such as jsdom first.');
+    }
+    return win;
+  }
+}
+
+/**
+ * Create and install a simulated host
+ * @param options Simulator options
+ */
+export const installSimulator = (options: SimulatorOptions = {}): R1Simulator => {
+  return new R1Simulator(options).install();
+};
+
+export { BridgeRecorder, TracePlayer } from './recorder';
+export type { BridgeTrace, TraceEvent, TracePlaybackOptions, TraceMismatch, TraceMetaValue } from './recorder';
@@ -0,0 +1,355 @@
+/**
+ * Record and replay of host bridge traffic
+ * Captures a plugin session as a timestamped JSON trace and replays it deterministically
+ */
+
+import type {
+  AccelerometerData,
+  HardwareEventType,
+  PluginMessage,
+  PluginMessageResponse,
+  TouchEvent
+} from '../types';
+import { accelerometer } from '../hardware';
+import type { AccelerometerAPI } from '../hardware';
+import type { R1Simulator } from './index';
+
+export type TraceMetaValue = string | number | boolean | null;
+
+export type TraceEvent =
+  | { t: number; type: 'outgoing'; payload: PluginMessage }
+  | { t: number; type: 'touch'; payload: TouchEvent }
+  | { t: number; type: 'response'; payload: PluginMessageResponse }
+  | { t: number; type: 'hardware'; event: HardwareEventType }
+  | { t: number; type: 'accelerometer'; sample: AccelerometerData };
+
+export interface BridgeTrace {
+  version: 1;
+  startedAt: number;    // Epoch milliseconds when recording started
+  duration: number;     // Milliseconds recorded
+  events: TraceEvent[]; // Ordered by t (milliseconds since start)
+  meta?: Record<string, TraceMetaValue>;
+}
+
+export interface TracePlaybackOptions {
+  speed?: number;       // Playback rate multiplier (default: 1)
+}
+
+export interface TraceMismatch {
+  index: number;
+  expected?: PluginMessage;
+  actual?: PluginMessage;
+}
+
+type UntimedTraceEvent = TraceEvent extends infer E ? (E extends TraceEvent ? Omit<E, 't'> : never) : never;
+
+const HARDWARE_EVENTS: HardwareEventType[] = ['sideClick', 'longPressStart', 'longPressEnd', 'scrollUp', 'scrollDown'];
+
+/**
+ * Records host bridge traffic from a running plugin
+ * Start it after the SDK is loaded so the plugin's onPluginMessage handler can be tapped.
+ */
+export class BridgeRecorder {
+  private events: TraceEvent[] = [];
+  private startTime = 0;
+  private startedAt = 0;
+  private recording = false;
+  private duration = 0;
+  private meta?: Record<string, TraceMetaValue>;
+  private restore: Array<() => void> = [];
+
+  constructor(
+    private win: any = typeof window !== 'undefined' ? window : undefined,
+    private sensor: AccelerometerAPI = accelerometer
+  ) {}
+
+  /**
+   * Start recording
+   * @param meta Optional metadata stored with the trace (device, plugin version, ...)
+   */
+  start(meta?: Record<string, TraceMetaValue>): void {
+    if (this.recording) return;
+    if (!this.win) {
+      throw new Error('BridgeRecorder requires a browser environment');
+    }
+
+    this.events = [];
+    this.meta = meta;
+    this.startTime = this.now();
+    this.startedAt = Date.now();
+    this.recording = true;
+
+    this.tapHandler('PluginMessageHandler', message => this.record({ type: 'outgoing', payload: JSON.parse(message) }));
+    this.tapHandler('TouchEventHandler', message => this.record({ type: 'touch', payload: JSON.parse(message) }));
+    this.tapResponses();
+    this.tapHardwareEvents();
+    this.tapAccelerometer();
+  }
+
+  /**
+   * Stop recording and return the trace
+   */
+  stop(): BridgeTrace {
+    if (this.recording) {
+      this.restore.reverse().forEach(undo => undo());
+      this.restore = [];
+      this.duration = this.now() - this.startTime;
+      this.recording = false;
+    }
+    return this.getTrace();
+  }
+
+  /**
+   * Check if currently recording
+   */
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Get the trace recorded so far
+   */
+  getTrace(): BridgeTrace {
+    return {
+      version: 1,
+      startedAt: this.startedAt,
+      duration: Math.round(this.recording ? this.now() - this.startTime : this.duration),
+      events: this.events.map(event => ({ ...event })),
+      ...(this.meta ? { meta: this.meta } : {})
+    };
+  }
+
+  /**
+   * Serialize the trace as JSON
+   */
+  toJSON(): string {
+    return JSON.stringify(this.getTrace());
+  }
+
+  private record(event: UntimedTraceEvent): void {
+    if (!this.recording) return;
+    this.events.push({ t: Math.round(this.now() - this.startTime), ...event } as TraceEvent);
+  }
+
+  private tapHandler(name: string, onMessage: (message: string) => void): void {
+    const handler = (globalThis as any)[name] ?? this.win[name];
+    if (!handler || typeof handler.postMessage !== 'function') return;
+
+    const original = handler.postMessage;
+    handler.postMessage = (message: string) => {
+      try {
+        onMessage(message);
+      } catch (error) {
+        console.warn('Failed to record bridge message:', error);
+      }
+      return original.call(handler, message);
+    };
+    this.restore.push(() => { handler.postMessage = original; });
+  }
+
+  private tapResponses(): void {
+    const original = this.win.onPluginMessage;
+    this.win.onPluginMessage = (data: PluginMessageResponse) => {
+      this.record({ type: 'response', payload: data });
+      original?.(data);
+    };
+    this.restore.push(() => { this.win.onPluginMessage = original; });
+  }
+
+  private tapHardwareEvents(): void {
+    HARDWARE_EVENTS.forEach(event => {
+      const listener = () => this.record({ type: 'hardware', event });
+      this.win.addEventListener(event, listener, true);
+      this.restore.push(() => this.win.removeEventListener(event, listener, true));
+    });
+  }
+
+  private tapAccelerometer(): void {
+    // Samples arrive through the SDK's accelerometer hub, so a sensor started before recording is captured too
+    this.restore.push(this.sensor.observe((data: AccelerometerData) => {
+      this.record({ type: 'accelerometer', sample: { x: data.x, y: data.y, z: data.z } });
+    }));
+  }
+
+  private now(): number {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now();
+  }
+}
+
+/**
+ * Replays a recorded trace into a plugin through a simulated host
+ * Responses, hardware events and accelerometer samples are delivered in recorded order;
+ * outgoing messages are kept for comparison with what the plugin sends during replay.
+ */
+export class TracePlayer {
+  private position = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private finish?: () => void;
+
+  constructor(private trace: BridgeTrace, private simulator: R1Simulator) {
+    if (trace.version !== 1) {
+      throw new Error(`Unsupported trace version: ${trace.version}`);
+    }
+    // Responses come from the trace during replay
+    simulator.setResponder(() => null);
+  }
+
+  /**
+   * Parse a trace from JSON
+   * @param json Serialized trace
+   * @param simulator Installed simulator to replay into
+   */
+  static fromJSON(json: string, simulator: R1Simulator): TracePlayer {
+    return new TracePlayer(JSON.parse(json), simulator);
+  }
+
+  /**
+   * Deliver the next incoming event
+   * @returns Whether an event was delivered
+   */
+  step(): boolean {
+    const event = this.nextIncoming();
+    if (!event) return false;
+
+    this.deliver(event);
+    return true;
+  }
+
+  /**
+   * Deliver every remaining event immediately, in order
+   */
+  runAll(): void {
+    while (this.step()) {
+      // Keep stepping until the trace is exhausted
+    }
+  }
+
+  /**
+   * Replay remaining events with their recorded timing
+   * @param options Playback options
+   * @returns Promise resolving when playback finishes or is stopped
+   */
+  play(options: TracePlaybackOptions = {}): Promise<void> {
+    const speed = options.speed ?? 1;
+    this.pause();
+
+    return new Promise(resolve => {
+      this.finish = resolve;
+      const scheduleNext = (previousTime: number) => {
+        const event = this.nextIncoming(false);
+        if (!event) {
+          this.timer = undefined;
+          this.finish = undefined;
+          resolve();
+          return;
+        }
+
+        this.timer = setTimeout(() => {
+          this.step();
+          scheduleNext(event.t);
+        }, Math.max(0, (event.t - previousTime) / speed));
+      };
+
+      const current = this.trace.events[this.position - 1];
+      scheduleNext(current ? current.t : 0);
+    });
+  }
+
+  /**
+   * Stop timed playback, keeping the current position
+   */
+  pause(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.finish?.();
+    this.finish = undefined;
+  }
+
+  /**
+   * Rewind to the start of the trace
+   */
+  reset(): void {
+    this.pause();
+    this.position = 0;
+  }
+
+  /**
+   * Whether every event has been delivered
+   */
+  isFinished(): boolean {
+    return this.nextIncoming(false) === undefined;
+  }
+
+  /**
+   * Outgoing messages recorded in the trace
+   */
+  getExpectedMessages(): PluginMessage[] {
+    return this.trace.events
+      .filter((event): event is Extract<TraceEvent, { type: 'outgoing' }> => event.type === 'outgoing')
+      .map(event => event.payload);
+  }
+
+  /**
+   * Compare outgoing messages sent during replay with the recording
+   * pluginId is ignored because correlation ids differ between sessions
+   * @returns Mismatches (empty when the replay matched)
+   */
+  verify(): TraceMismatch[] {
+    const expected = this.getExpectedMessages();
+    const actual = this.simulator.sentMessages;
+    const mismatches: TraceMismatch[] = [];
+    const normalize = (message?: PluginMessage) => {
+      if (!message) return undefined;
+      const { pluginId, ...rest } = message;
+      return JSON.stringify(rest);
+    };
+
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      if (normalize(expected[i]) !== normalize(actual[i])) {
+        mismatches.push({ index: i, expected: expected[i], actual: actual[i] });
+      }
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * Id the plugin used during replay for the request a recorded response answers
+   * Request ids differ between sessions, so outgoing messages are matched in order
+   */
+  private replayId(recordedId: string): string {
+    if (!recordedId) return recordedId;
+
+    const index = this.getExpectedMessages().findIndex(message => message.pluginId === recordedId);
+    return index === -1 ? recordedId : this.simulator.sentMessages[index]?.pluginId ?? recordedId;
+  }
+
+  private nextIncoming(advance: boolean = true): TraceEvent | undefined {
+    let index = this.position;
+    while (index < this.trace.events.length) {
+      const event = this.trace.events[index++];
+      if (event.type !== 'outgoing' && event.type !== 'touch') {
+        if (advance) this.position = index;
+        return event;
+      }
+    }
+    if (advance) this.position = index;
+    return undefined;
+  }
+
+  private deliver(event: TraceEvent): void {
+    switch (event.type) {
+      case 'response':
+        this.simulator.respond({ ...event.payload, pluginId: this.replayId(event.payload.pluginId) });
+        break;
+      case 'hardware':
+        this.simulator.dispatchHardwareEvent(event.event);
+        break;
+      case 'accelerometer':
+        this.simulator.accelerometer.emit(event.sample);
+        break;
+    }
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Backup export and import of plugin data
+ * The host storage can't list its keys, so R1Storage records every key written through it;
+ * a backup is a versioned JSON bundle of the raw stored strings with CRC-32 checksums
+ */
+
+import type { StorageAPI } from '../types';
+import { StorageEncoding, ValueFraming } from './codec';
+
+export type BackupStoreName = 'plain' | 'secure';
+
+export interface BackupEntry {
+  key: string;
+  value: string;           // Raw stored string
+  crc: string;             // CRC-32 of the value
+}
+
+export interface BackupBundle {
+  format: 'r1-backup';
+  version: number;
+  createdAt: number;
+  stores: Partial<Record<BackupStoreName, BackupEntry[]>>;
+  checksum: string;        // CRC-32 of the serialized stores
+}
+
+export interface BackupExportOptions {
+  secure?: boolean;        // Include secure storage (default: false)
+  keys?: string[];         // Extra keys to include, for data written before keys were recorded
+}
+
+export interface BackupImportOptions {
+  strategy?: 'merge' | 'replace';  // Keep keys missing from the bundle, or remove them (default: 'merge')
+  stores?: BackupStoreName[];      // Stores to restore (default: every store in the bundle)
+}
+
+export interface BackupImportResult {
+  stores: BackupStoreName[];
+  written: number;
+  removed: number;
+}
+
+export type BackupErrorReason = 'malformed' | 'unsupported-version' | 'checksum-mismatch' | 'restore-failed';
+
+/**
+ * Error raised when a backup bundle is invalid or cannot be restored
+ */
+export class BackupError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: BackupErrorReason,
+    public readonly key?: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export const BACKUP_VERSION = 1;
+
+const KEY_INDEX_KEY = '__key_index';
+
+/**
+ * Host storage that records the keys written through it
+ */
+export class TrackedStorage implements StorageAPI {
+  private index?: Promise<Set<string>>;
+  private write: Promise<void> = Promise.resolve();
+
+  constructor(private storage: StorageAPI) {}
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.storage.setItem(key, value);
+    await this.updateIndex(keys => {
+      if (keys.has(key)) return false;
+      keys.add(key);
+      return true;
+    });
+  }
+
+  getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(key);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.storage.removeItem(key);
+    await this.updateIndex(keys => keys.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear();
+    this.index = undefined;
+  }
+
+  /**
+   * Record keys written before key recording started
+   * Keys without a value are skipped; chunked values also record their chunk keys
+   * @param keys Storage keys
+   */
+  async track(keys: string[]): Promise<void> {
+    const found: string[] = [];
+    for (const key of new Set(keys)) {
+      const stored = await this.storage.getItem(key);
+      if (stored === null || stored === undefined) continue;
+      found.push(key, ...ValueFraming.chunkKeys(key, stored));
+    }
+
+    await this.updateIndex(index => {
+      const size = index.size;
+      found.forEach(key => index.add(key));
+      return index.size !== size;
+    });
+  }
+
+  /**
+   * Keys written since key recording started
+   */
+  async keys(): Promise<string[]> {
+    return [...(await this.loadIndex())];
+  }
+
+  private loadIndex(): Promise<Set<string>> {
+    if (!this.index) {
+      this.index = this.storage.getItem(KEY_INDEX_KEY).then(stored => {
+        try {
+          const parsed = stored ? JSON.parse(stored) : [];
+          return new Set(Array.isArray(parsed) ? parsed.filter((key): key is string => typeof key === 'string') : []);
+        } catch {
+          return new Set<string>();
+        }
+      });
+    }
+    return this.index;
+  }
+
+  /**
+   * Apply a change to the key index; writes are serialized so concurrent calls don't drop keys
+   */
+  private updateIndex(change: (keys: Set<string>) => boolean): Promise<void> {
+    const next = this.write.then(async () => {
+      const keys = await this.loadIndex();
+      if (!change(keys)) return;
+
+      if (keys.size > 0) {
+        await this.storage.setItem(KEY_INDEX_KEY, JSON.stringify([...keys]));
+      } else {
+        await this.storage.removeItem(KEY_INDEX_KEY);
+      }
+    });
+    this.write = next.catch(() => {});
+    return next;
+  }
+}
+
+/**
+ * Exports and restores backup bundles
+ */
+export class StorageBackup {
+  constructor(private store: (name: BackupStoreName) => TrackedStorage) {}
+
+  /**
+   * Export every recorded key into a bundle
+   * @param options Stores and extra keys to include
+   */
+  async export(options: BackupExportOptions = {}): Promise<BackupBundle> {
+    const names: BackupStoreName[] = options.secure ? ['plain', 'secure'] : ['plain'];
+    const stores: BackupBundle['stores'] = {};
+
+    for (const name of names) {
+      const storage = this.store(name);
+      const keys = new Set([...(await storage.keys()), ...(options.keys ?? [])]);
+      const entries: BackupEntry[] = [];
+      for (const key of [...keys].sort()) {
+        const value = await storage.getItem(key);
+        if (value === null || value === undefined) continue;
+        entries.push({ key, value, crc: StorageEncoding.crc32(value) });
+      }
+      stores[name] = entries;
+    }
+
+    return {
+      format: 'r1-backup',
+      version: BACKUP_VERSION,
+      createdAt: Date.now(),
+      stores,
+      checksum: StorageEncoding.crc32(JSON.stringify(stores))
+    };
+  }
+
+  /**
+   * Restore a bundle
+   * The bundle is verified before anything is written; if a write fails, the keys
+   * touched so far are restored to their previous values
+   * @param bundle Bundle object or its JSON text
+   * @param options Merge or replace, and which stores to restore
+   * @throws BackupError when the bundle is invalid or the restore fails
+   */
+  async import(bundle: BackupBundle | string, options: BackupImportOptions = {}): Promise<BackupImportResult> {
+    const verified = StorageBackup.verify(bundle);
+    const names = (options.stores ?? (Object.keys(verified.stores) as BackupStoreName[]))
+      .filter(name => verified.stores[name]);
+    const result: BackupImportResult = { stores: names, written: 0, removed: 0 };
+
+    for (const name of names) {
+      const storage = this.store(name);
+      const entries = verified.stores[name]!;
+      const incoming = new Set(entries.map(entry => entry.key));
+      const removals = options.strategy === 'replace'
+        ? (await storage.keys()).filter(key => !incoming.has(key))
+        : [];
+
+      const previous = new Map<string, string | null>();
+      try {
+        for (const key of removals) {
+          previous.set(key, await storage.getItem(key));
+          await storage.removeItem(key);
+        }
+        for (const entry of entries) {
+          if (!previous.has(entry.key)) previous.set(entry.key, await storage.getItem(entry.key));
+          await storage.setItem(entry.key, entry.value);
+        }
+      } catch (error) {
+        await this.rollback(storage, previous);
+        throw new BackupError(`Failed to restore ${name} storage: ${(error as Error)?.message ?? error}`, 'restore-failed', undefined, error);
+      }
+
+      result.written += entries.length;
+      result.removed += removals.length;
+    }
+    return result;
+  }
+
+  /**
+   * Check a bundle's format, version and checksums
+   * @param bundle Bundle object or its JSON text
+   * @returns The parsed bundle
+   * @throws BackupError when the bundle is invalid
+   */
+  static verify(bundle: BackupBundle | string): BackupBundle {
+    let parsed: BackupBundle;
+    try {
+      parsed = typeof bundle === 'string' ? JSON.parse(bundle) : bundle;
+    } catch (error) {
+      throw new BackupError('Backup is not valid JSON', 'malformed', undefined, error);
+    }
+
+    if (parsed?.format !== 'r1-backup' || typeof parsed.stores !== 'object' || parsed.stores === null) {
+      throw new BackupError('Not an R1 backup bundle', 'malformed');
+    }
+    if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+      throw new BackupError(`Unsupported backup version ${parsed.version}`, 'unsupported-version');
+    }
+    if (StorageEncoding.crc32(JSON.stringify(parsed.stores)) !== parsed.checksum) {
+      throw new BackupError('Backup checksum mismatch', 'checksum-mismatch');
+    }
+
+    for (const entries of Object.values(parsed.stores)) {
+      if (!Array.isArray(entries)) {
+        throw new BackupError('Backup store is not a list of entries', 'malformed');
+      }
+      for (const entry of entries) {
+        if (typeof entry?.key !== 'string' || typeof entry.value !== 'string') {
+          throw new BackupError('Backup entry is missing its key or value', 'malformed', entry?.key);
+        }
+        if (StorageEncoding.crc32(entry.value) !== entry.crc) {
+          throw new BackupError(`Checksum mismatch for "${entry.key}"`, 'checksum-mismatch', entry.key);
+        }
+      }
+    }
+    return parsed;
+  }
+
+  private async rollback(storage: TrackedStorage, previous: Map<string, string | null>): Promise<void> {
+    for (const [key, value] of previous) {
+      try {
+        if (value === null || value === undefined) {
+          await storage.removeItem(key);
+        } else {
+          await storage.setItem(key, value);
+        }
+      } catch {
+        // Keep restoring the remaining keys
+      }
+    }
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * Storage codecs and value framing
+ * Converts values to storage strings (UTF-8 text, JSON and binary), with optional
+ * gzip compression and chunking of large values across several keys
+ */
+
+import type { StorageAPI } from '../types';
+
+/**
+ * Converts values to and from the strings kept in storage
+ */
+export interface StorageCodec {
+  encode(value: any): Promise<string> | string;
+  decode<T = any>(stored: string, parseJson: boolean): Promise<T> | T;
+}
+
+export interface ValueFramingOptions {
+  chunkSize?: number;          // Values longer than this are split across keys (default: 65536)
+  compress?: boolean;          // Gzip values with CompressionStream when it saves space (default: false)
+  compressThreshold?: number;  // Minimum encoded length before compressing (default: 1024)
+}
+
+/**
+ * Error raised when a chunked value is incomplete or fails its checksum
+ */
+export class StorageIntegrityError extends Error {
+  constructor(message: string, public readonly key: string) {
+    super(message);
+    this.name = 'StorageIntegrityError';
+  }
+}
+
+// Framed values start with a prefix that is not valid Base64, so they never collide with legacy values
+const FRAME_PREFIX = 'r1:';
+
+type Frame =
+  | { t: 'bin'; kind: 'blob' | 'arraybuffer' | 'bytes'; type?: string; data: string }
+  | { t: 'gzip'; data: string }
+  | { t: 'ttl'; expiresAt: number; data: string }
+  | { t: 'chunks'; count: number; length: number; crc: string };
+
+/**
+ * UTF-8 and binary helpers for storage encoding
+ */
+export class StorageEncoding {
+  /**
+   * Encode bytes as Base64
+   * @param bytes Bytes to encode
+   */
+  static bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  }
+
+  /**
+   * Decode Base64 to bytes
+   * @param base64 Base64 string
+   */
+  static base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  /**
+   * Encode text as UTF-8 Base64 (safe for emoji, CJK and accented text)
+   * @param text Text to encode
+   */
+  static textToBase64(text: string): string {
+    return this.bytesToBase64(new TextEncoder().encode(text));
+  }
+
+  /**
+   * Decode UTF-8 Base64 to text
+   * Values written by older versions with plain btoa (Latin-1) are still decoded correctly
+   * @param base64 Base64 string
+   */
+  static base64ToText(base64: string): string {
+    const bytes = this.base64ToBytes(base64);
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+      return atob(base64);
+    }
+  }
+
+  /**
+   * CRC-32 checksum of a string, as 8 hex digits
+   * @param value String to checksum
+   */
+  static crc32(value: string): string {
+    const table = this.crcTable ??= Array.from({ length: 256 }, (_, n) => {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      return c >>> 0;
+    });
+
+    let crc = 0xffffffff;
+    const bytes = new TextEncoder().encode(value);
+    for (let i = 0; i < bytes.length; i++) {
+      crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+  }
+
+  /**
+   * Check if CompressionStream is available
+   */
+  static canCompress(): boolean {
+    return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+  }
+
+  /**
+   * Gzip text and return Base64
+   * @param text Text to compress
+   */
+  static async gzip(text: string): Promise<string> {
+    const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+    return this.bytesToBase64(new Uint8Array(await new Response(stream).arrayBuffer()));
+  }
+
+  /**
+   * Decompress Base64 gzip data to text
+   * @param base64 Compressed data
+   */
+  static async gunzip(base64: string): Promise<string> {
+    const stream = new Blob([this.base64ToBytes(base64)]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return new Response(stream).text();
+  }
+
+  private static crcTable?: number[];
+}
+
+/**
+ * Default codec: JSON and text as UTF-8 Base64, plus Blob, ArrayBuffer and typed array values
+ */
+export class DefaultCodec implements StorageCodec {
+  async encode(value: any): Promise<string> {
+    if (typeof Blob !== 'undefined' && value instanceof Blob) {
+      const data = StorageEncoding.bytesToBase64(new Uint8Array(await value.arrayBuffer()));
+      return this.frame({ t: 'bin', kind: 'blob', type: value.type, data });
+    }
+    if (value instanceof ArrayBuffer) {
+      return this.frame({ t: 'bin', kind: 'arraybuffer', data: StorageEncoding.bytesToBase64(new Uint8Array(value)) });
+    }
+    if (ArrayBuffer.isView(value)) {
+      const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+      return this.frame({ t: 'bin', kind: 'bytes', data: StorageEncoding.bytesToBase64(bytes) });
+    }
+
+    return StorageEncoding.textToBase64(typeof value === 'string' ? value : JSON.stringify(value));
+  }
+
+  decode<T = any>(stored: string, parseJson: boolean): T {
+    const frame = ValueFraming.parseFrame(stored);
+    if (frame?.t === 'bin') {
+      const bytes = StorageEncoding.base64ToBytes(frame.data);
+      if (frame.kind === 'blob') return new Blob([bytes], { type: frame.type ?? '' }) as T;
+      if (frame.kind === 'arraybuffer') return bytes.buffer as T;
+      return bytes as T;
+    }
+
+    const text = StorageEncoding.base64ToText(stored);
+    return parseJson ? JSON.parse(text) : text as T;
+  }
+
+  private frame(frame: Frame): string {
+    return `${FRAME_PREFIX}${JSON.stringify(frame)}`;
+  }
+}
+
+/**
+ * Writes encoded values with optional compression and chunking
+ * Chunks are stored as `<key>__chunk_<n>` next to a manifest under the key itself
+ */
+export class ValueFraming {
+  constructor(private storage: StorageAPI, private options: ValueFramingOptions = {}) {}
+
+  /**
+   * Parse a framed value
+   * @param stored Stored string
+   * @returns The frame, or null for unframed values
+   */
+  static parseFrame(stored: string): Frame | null {
+    if (!stored.startsWith(FRAME_PREFIX)) return null;
+    try {
+      return JSON.parse(stored.slice(FRAME_PREFIX.length));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Keys holding the chunks of a stored value
+   * @param key Storage key
+   * @param stored Value stored under the key
+   * @returns Chunk keys, or an empty list for values that are not chunked
+   */
+  static chunkKeys(key: string, stored: string): string[] {
+    const frame = ValueFraming.parseFrame(stored);
+    return frame?.t === 'chunks' ? Array.from({ length: frame.count }, (_, i) => ValueFraming.chunkKey(key, i)) : [];
+  }
+
+  /**
+   * Wrap an encoded value with an expiry time
+   * @param encoded Codec output
+   * @param expiresAt Expiry time in milliseconds since the epoch
+   */
+  static withExpiry(encoded: string, expiresAt: number): string {
+    return `${FRAME_PREFIX}${JSON.stringify({ t: 'ttl', expiresAt, data: encoded })}`;
+  }
+
+  /**
+   * Write an encoded value, compressing and chunking as configured
+   * @param key Storage key
+   * @param encoded Codec output
+   */
+  async write(key: string, encoded: string): Promise<void> {
+    let payload = encoded;
+    if (this.options.compress && StorageEncoding.canCompress() &&
+        encoded.length >= (this.options.compressThreshold ?? 1024)) {
+      const compressed = `${FRAME_PREFIX}${JSON.stringify({ t: 'gzip', data: await StorageEncoding.gzip(encoded) })}`;
+      if (compressed.length < encoded.length) payload = compressed;
+    }
+
+    const previousChunks = await this.chunkCount(key);
+    const chunkSize = this.options.chunkSize ?? 65536;
+    let count = 0;
+
+    if (payload.length > chunkSize) {
+      count = Math.ceil(payload.length / chunkSize);
+      for (let i = 0; i < count; i++) {
+        await this.storage.setItem(ValueFraming.chunkKey(key, i), payload.slice(i * chunkSize, (i + 1) * chunkSize));
+      }
+      const manifest: Frame = { t: 'chunks', count, length: payload.length, crc: StorageEncoding.crc32(payload) };
+      await this.storage.setItem(key, `${FRAME_PREFIX}${JSON.stringify(manifest)}`);
+    } else {
+      await this.storage.setItem(key, payload);
+    }
+
+    for (let i = count; i < previousChunks; i++) {
+      await this.storage.removeItem(ValueFraming.chunkKey(key, i));
+    }
+  }
+
+  /**
+   * Read a value written by write(), reassembling and decompressing it
+   * @param key Storage key
+   * @throws StorageIntegrityError when chunks are missing or the checksum does not match
+   */
+  async read(key: string): Promise<string | null> {
+    let payload = await this.storage.getItem(key);
+    if (payload === null || payload === undefined) return null;
+
+    let frame = ValueFraming.parseFrame(payload);
+    if (frame?.t === 'chunks') {
+      const parts: string[] = [];
+      for (let i = 0; i < frame.count; i++) {
+        const part = await this.storage.getItem(ValueFraming.chunkKey(key, i));
+        if (part === null || part === undefined) {
+          throw new StorageIntegrityError(`Chunk ${i} of "${key}" is missing`, key);
+        }
+        parts.push(part);
+      }
+
+      payload = parts.join('');
+      if (payload.length !== frame.length || StorageEncoding.crc32(payload) !== frame.crc) {
+        throw new StorageIntegrityError(`Checksum mismatch for "${key}"`, key);
+      }
+      frame = ValueFraming.parseFrame(payload);
+    }
+
+    if (frame?.t === 'gzip') {
+      payload = await StorageEncoding.gunzip(frame.data);
+    }
+    return payload;
+  }
+
+  /**
+   * Remove a value and its chunks
+   * @param key Storage key
+   */
+  async remove(key: string): Promise<void> {
+    const chunks = await this.chunkCount(key);
+    await this.storage.removeItem(key);
+    for (let i = 0; i < chunks; i++) {
+      await this.storage.removeItem(ValueFraming.chunkKey(key, i));
+    }
+  }
+
+  private async chunkCount(key: string): Promise<number> {
+    const stored = await this.storage.getItem(key);
+    const frame = stored ? ValueFraming.parseFrame(stored) : null;
+    return frame?.t === 'chunks' ? frame.count : 0;
+  }
+
+  private static chunkKey(key: string, index: number): string {
+    return `${key}__chunk_${index}`;
+  }
+}
@@ -0,0 +1,478 @@
+/**
+ * Document collections on top of R1Storage
+ * Each document is stored under its own key, with secondary indexes on declared fields,
+ * so edits don't rewrite the whole collection
+ */
+
+import type { StorageWrapper } from './index';
+import type { StorageTransaction } from './transaction';
+
+export type CollectionDocument = { id: string } & Record<string, any>;
+
+export type FieldCondition<V> = V | {
+  $eq?: V;
+  $ne?: V;
+  $in?: V[];
+  $nin?: V[];
+  $gt?: V;
+  $gte?: V;
+  $lt?: V;
+  $lte?: V;
+};
+
+export type Filter<T extends CollectionDocument> = { [K in keyof T]?: FieldCondition<T[K]> } | ((doc: T) => boolean);
+
+export type SortOrder<T extends CollectionDocument> = keyof T | { [K in keyof T]?: 1 | -1 };
+
+export interface FindOptions<T extends CollectionDocument> {
+  sort?: SortOrder<T>;     // Field name (ascending) or { field: 1 | -1, ... }
+  limit?: number;
+  offset?: number;
+}
+
+export interface CollectionOptions<T extends CollectionDocument = CollectionDocument> {
+  indexes?: Array<keyof T & string>;  // Fields with a secondary index for equality and $in queries
+  secure?: boolean;                   // Store in secure storage (default: false)
+}
+
+export type CollectionChange<T extends CollectionDocument> =
+  | { type: 'insert'; id: string; doc: T }
+  | { type: 'update'; id: string; doc: T; previous: T }
+  | { type: 'remove'; id: string; previous: T };
+
+type IndexData = Record<string, string[]>;
+
+/**
+ * Stored collection of JSON documents
+ * Keys: `col:<name>:ids`, `col:<name>:doc:<id>` and `col:<name>:index:<field>`
+ */
+export class Collection<T extends CollectionDocument = CollectionDocument> {
+  private ids?: Set<string>;
+  private docs: Map<string, T> = new Map();
+  private indexes: Map<string, Map<string, Set<string>>> = new Map();
+  private loading?: Promise<void>;
+  private writes: Promise<void> = Promise.resolve();
+  private listeners: Set<(change: CollectionChange<T>) => void> = new Set();
+  private counter = 0;
+
+  constructor(private storage: StorageWrapper, readonly name: string, private options: CollectionOptions<T> = {}) {
+    if (!name || name.includes(':')) {
+      throw new Error(`Invalid collection name "${name}"`);
+    }
+  }
+
+  /**
+   * Insert a document; an id is generated when missing
+   * @param doc Document to insert
+   * @returns The stored document
+   */
+  async insert(doc: Omit<T, 'id'> & { id?: string }): Promise<T> {
+    const [inserted] = await this.insertMany([doc]);
+    return inserted;
+  }
+
+  /**
+   * Insert several documents in one transaction
+   * @param docs Documents to insert
+   */
+  async insertMany(docs: Array<Omit<T, 'id'> & { id?: string }>): Promise<T[]> {
+    return this.serialize(async () => {
+      await this.load();
+      const inserted = docs.map(doc => this.clone({ ...doc, id: doc.id ?? this.createId() } as T));
+
+      for (const doc of inserted) {
+        if (this.ids!.has(doc.id)) {
+          throw new Error(`Document ${doc.id} already exists in ${this.name}`);
+        }
+      }
+
+      await this.write(inserted.map(doc => ({ id: doc.id, doc })));
+      inserted.forEach(doc => this.emit({ type: 'insert', id: doc.id, doc: this.clone(doc) }));
+      return inserted.map(doc => this.clone(doc));
+    });
+  }
+
+  /**
+   * Update documents by id or filter
+   * @param target Document id or filter
+   * @param changes Fields to merge, or a function returning the new document
+   * @returns The updated documents
+   */
+  async update(target: string | Filter<T>, changes: Partial<Omit<T, 'id'>> | ((doc: T) => T)): Promise<T[]> {
+    return this.serialize(async () => {
+      const matches = await this.resolve(target);
+      const updates = matches.map(previous => {
+        const next = typeof changes === 'function' ? changes(this.clone(previous)) : { ...previous, ...changes };
+        return { previous, doc: this.clone({ ...next, id: previous.id } as T) };
+      });
+      if (updates.length === 0) return [];
+
+      await this.write(updates.map(({ doc }) => ({ id: doc.id, doc })));
+      updates.forEach(({ previous, doc }) => this.emit({ type: 'update', id: doc.id, doc: this.clone(doc), previous }));
+      return updates.map(({ doc }) => this.clone(doc));
+    });
+  }
+
+  /**
+   * Remove documents by id or filter
+   * @param target Document id or filter
+   * @returns Number of removed documents
+   */
+  async remove(target: string | Filter<T>): Promise<number> {
+    return this.serialize(async () => {
+      const matches = await this.resolve(target);
+      if (matches.length === 0) return 0;
+
+      await this.write(matches.map(doc => ({ id: doc.id, doc: null })));
+      matches.forEach(previous => this.emit({ type: 'remove', id: previous.id, previous }));
+      return matches.length;
+    });
+  }
+
+  /**
+   * Get a document by id
+   * @param id Document id
+   */
+  async get(id: string): Promise<T | null> {
+    await this.load();
+    const doc = await this.loadDoc(id);
+    return doc ? this.clone(doc) : null;
+  }
+
+  /**
+   * Find documents
+   * @param filter Field conditions or predicate (default: all documents)
+   * @param options Sort, limit and offset
+   */
+  async find(filter: Filter<T> = {}, options: FindOptions<T> = {}): Promise<T[]> {
+    let results = await this.match(filter);
+
+    if (options.sort) {
+      const order: Array<[string, 1 | -1]> = typeof options.sort === 'object'
+        ? Object.entries(options.sort) as Array<[string, 1 | -1]>
+        : [[options.sort as string, 1]];
+      results = results.sort((a, b) => {
+        for (const [field, direction] of order) {
+          const result = this.compare(a[field], b[field]);
+          if (result !== 0) return result * direction;
+        }
+        return 0;
+      });
+    }
+
+    const offset = options.offset ?? 0;
+    const end = options.limit !== undefined ? offset + options.limit : undefined;
+    return results.slice(offset, end).map(doc => this.clone(doc));
+  }
+
+  /**
+   * Find the first matching document
+   * @param filter Field conditions or predicate
+   * @param options Sort order
+   */
+  async findOne(filter: Filter<T> = {}, options: Omit<FindOptions<T>, 'limit'> = {}): Promise<T | null> {
+    const [doc] = await this.find(filter, { ...options, limit: 1 });
+    return doc ?? null;
+  }
+
+  /**
+   * Count matching documents
+   * @param filter Field conditions or predicate (default: all documents)
+   */
+  async count(filter: Filter<T> = {}): Promise<number> {
+    if (typeof filter === 'object' && Object.keys(filter).length === 0) {
+      await this.load();
+      return this.ids!.size;
+    }
+    return (await this.match(filter)).length;
+  }
+
+  /**
+   * Remove all documents
+   */
+  async clear(): Promise<void> {
+    await this.remove({});
+  }
+
+  /**
+   * Listen for inserts, updates and removals
+   * @param event Event name
+   * @param callback Change callback
+   */
+  on(event: 'change', callback: (change: CollectionChange<T>) => void): void {
+    this.listeners.add(callback);
+  }
+
+  /**
+   * Remove a change listener
+   * @param event Event name
+   * @param callback Callback to remove
+   */
+  off(event: 'change', callback: (change: CollectionChange<T>) => void): void {
+    this.listeners.delete(callback);
+  }
+
+  private async resolve(target: string | Filter<T>): Promise<T[]> {
+    if (typeof target === 'string') {
+      await this.load();
+      const doc = await this.loadDoc(target);
+      return doc ? [doc] : [];
+    }
+    return this.match(target);
+  }
+
+  private async match(filter: Filter<T>): Promise<T[]> {
+    await this.load();
+
+    let candidates: Iterable<string> = this.ids!;
+    if (typeof filter === 'object') {
+      for (const [field, condition] of Object.entries(filter)) {
+        const indexed = this.lookupIndex(field, condition);
+        if (indexed) {
+          candidates = indexed;
+          break;
+        }
+      }
+    }
+
+    const results: T[] = [];
+    for (const id of candidates) {
+      const doc = await this.loadDoc(id);
+      if (doc && this.matches(doc, filter)) results.push(doc);
+    }
+    return results;
+  }
+
+  private matches(doc: T, filter: Filter<T>): boolean {
+    if (typeof filter === 'function') return filter(this.clone(doc));
+
+    return Object.entries(filter).every(([field, condition]) => {
+      const value = doc[field];
+      if (!this.isOperator(condition)) return this.equals(value, condition);
+
+      return Object.entries(condition).every(([operator, operand]) => {
+        switch (operator) {
+          case '$eq': return this.equals(value, operand);
+          case '$ne': return !this.equals(value, operand);
+          case '$in': return (operand as any[]).some(item => this.equals(value, item));
+          case '$nin': return !(operand as any[]).some(item => this.equals(value, item));
+          case '$gt': return value !== undefined && this.compare(value, operand) > 0;
+          case '$gte': return value !== undefined && this.compare(value, operand) >= 0;
+          case '$lt': return value !== undefined && this.compare(value, operand) < 0;
+          case '$lte': return value !== undefined && this.compare(value, operand) <= 0;
+          default: throw new Error(`Unknown filter operator ${operator}`);
+        }
+      });
+    });
+  }
+
+  private lookupIndex(field: string, condition: unknown): Set<string> | null {
+    const index = this.indexes.get(field);
+    if (!index) return null;
+
+    let values: unknown[];
+    if (!this.isOperator(condition)) {
+      values = [condition];
+    } else if ('$eq' in condition) {
+      values = [condition.$eq];
+    } else if (Array.isArray(condition.$in)) {
+      values = condition.$in;
+    } else {
+      return null;
+    }
+
+    const ids = new Set<string>();
+    values.forEach(value => index.get(this.indexValue(value))?.forEach(id => ids.add(id)));
+    return ids;
+  }
+
+  /**
+   * Run a change after earlier ones finish, so concurrent writes build on each other's ids and indexes
+   */
+  private serialize<R>(change: () => Promise<R>): Promise<R> {
+    const next = this.writes.then(change);
+    this.writes = next.then(() => undefined, () => undefined);
+    return next;
+  }
+
+  private async write(changes: Array<{ id: string; doc: T | null }>): Promise<void> {
+    const ids = new Set(this.ids);
+    let membershipChanged = false;
+    const indexes = new Map([...this.indexes].map(([field, index]) =>
+      [field, new Map([...index].map(([value, set]) => [value, new Set(set)]))]));
+    const touched = new Set<string>();
+
+    for (const { id, doc } of changes) {
+      const previous = this.docs.get(id);
+      for (const [field, index] of indexes) {
+        if (previous) this.removeFromIndex(index, previous[field], id);
+        if (doc) this.addToIndex(index, doc[field], id);
+        if (!previous || !doc || !this.equals(previous[field], doc[field])) touched.add(field);
+      }
+      if (doc ? !ids.has(id) : ids.has(id)) membershipChanged = true;
+      if (doc) {
+        ids.add(id);
+      } else {
+        ids.delete(id);
+      }
+    }
+
+    await this.storage.transaction(async (tx: StorageTransaction) => {
+      for (const { id, doc } of changes) {
+        if (doc) {
+          await tx.setItem(this.docKey(id), doc);
+        } else {
+          await tx.removeItem(this.docKey(id));
+        }
+      }
+      if (membershipChanged) {
+        await tx.setItem(this.idsKey, [...ids]);
+      }
+      for (const field of touched) {
+        await tx.setItem(this.indexKey(field), this.serializeIndex(indexes.get(field)!));
+      }
+    });
+
+    this.ids = ids;
+    this.indexes = indexes;
+    for (const { id, doc } of changes) {
+      if (doc) {
+        this.docs.set(id, doc);
+      } else {
+        this.docs.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Storage keys holding the collection (id list, documents and declared indexes)
+   */
+  async storedKeys(): Promise<string[]> {
+    await this.load();
+    return [
+      this.idsKey,
+      ...[...this.ids!].map(id => this.docKey(id)),
+      ...(this.options.indexes ?? []).map(field => this.indexKey(field))
+    ];
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadState().catch(error => {
+        this.loading = undefined;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadState(): Promise<void> {
+    this.ids = new Set((await this.storage.getItem<string[]>(this.idsKey)) ?? []);
+
+    for (const field of this.options.indexes ?? []) {
+      const stored = await this.storage.getItem<IndexData>(this.indexKey(field));
+      if (stored) {
+        this.indexes.set(field, new Map(Object.entries(stored).map(([value, ids]) => [value, new Set(ids)])));
+        continue;
+      }
+
+      // Newly declared index: build it from the stored documents
+      const index = new Map<string, Set<string>>();
+      for (const id of this.ids) {
+        const doc = await this.loadDoc(id);
+        if (doc) this.addToIndex(index, doc[field], id);
+      }
+      this.indexes.set(field, index);
+      if (this.ids.size > 0) {
+        await this.storage.setItem(this.indexKey(field), this.serializeIndex(index));
+      }
+    }
+  }
+
+  private async loadDoc(id: string): Promise<T | null> {
+    if (!this.ids!.has(id)) return null;
+
+    let doc = this.docs.get(id);
+    if (!doc) {
+      doc = (await this.storage.getItem<T>(this.docKey(id))) ?? undefined;
+      if (doc) this.docs.set(id, doc);
+    }
+    return doc ?? null;
+  }
+
+  private addToIndex(index: Map<string, Set<string>>, value: unknown, id: string): void {
+    const key = this.indexValue(value);
+    if (!index.has(key)) index.set(key, new Set());
+    index.get(key)!.add(id);
+  }
+
+  private removeFromIndex(index: Map<string, Set<string>>, value: unknown, id: string): void {
+    const key = this.indexValue(value);
+    const ids = index.get(key);
+    if (!ids) return;
+    ids.delete(id);
+    if (ids.size === 0) index.delete(key);
+  }
+
+  private serializeIndex(index: Map<string, Set<string>>): IndexData {
+    const data: IndexData = {};
+    index.forEach((ids, value) => { data[value] = [...ids]; });
+    return data;
+  }
+
+  private indexValue(value: unknown): string {
+    return value === undefined ? 'undefined' : JSON.stringify(value);
+  }
+
+  private isOperator(condition: unknown): condition is Exclude<FieldCondition<any>, string | number | boolean> & Record<string, any> {
+    return !!condition && typeof condition === 'object' && !Array.isArray(condition) &&
+      Object.keys(condition).length > 0 && Object.keys(condition).every(key => key.startsWith('$'));
+  }
+
+  private equals(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null) {
+      return JSON.stringify(a) === JSON.stringify(b);
+    }
+    return false;
+  }
+
+  private compare(a: any, b: any): number {
+    if (a === b) return 0;
+    if (a === undefined || a === null) return -1;
+    if (b === undefined || b === null) return 1;
+    if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  private emit(change: CollectionChange<T>): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(change);
+      } catch (error) {
+        console.error(`Error in ${this.name} collection listener:`, error);
+      }
+    });
+  }
+
+  private clone<V>(value: V): V {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  private createId(): string {
+    this.counter++;
+    return `${Date.now().toString(36)}${this.counter.toString(36).padStart(2, '0')}${Math.random().toString(36).slice(2, 6)}`;
+  }
+
+  private docKey(id: string): string {
+    return `col:${this.name}:doc:${id}`;
+  }
+
+  private indexKey(field: string): string {
+    return `col:${this.name}:index:${field}`;
+  }
+
+  private get idsKey(): string {
+    return `col:${this.name}:ids`;
+  }
+}
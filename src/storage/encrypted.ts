@@ -0,0 +1,442 @@
+/**
+ * Client-side encrypted storage
+ * Wraps any StorageAPI with WebCrypto AES-GCM using a PBKDF2-derived key or a key held in secure storage
+ */
+
+import type { StorageAPI } from '../types';
+
+export interface EncryptionKey {
+  id: string;
+  key: CryptoKey;
+}
+
+export interface EncryptedStorageOptions {
+  indexKey?: string;       // Key holding the list of encrypted keys (default: '<metaKey or keyName>_index', or 'encrypted_index')
+}
+
+export interface PasswordKeyOptions extends EncryptedStorageOptions {
+  iterations?: number;     // PBKDF2 iterations for new keys (default: 100000)
+  metaKey?: string;        // Key holding salts and key ids (default: 'encryption_meta')
+}
+
+export interface SecureKeyOptions extends EncryptedStorageOptions {
+  keyName?: string;        // Secure storage key holding the key material (default: 'encryption_key')
+}
+
+export type DecryptionErrorReason = 'malformed' | 'unknown-key' | 'tampered' | 'wrong-password';
+
+/**
+ * Error raised when a stored value cannot be decrypted
+ */
+export class DecryptionError extends Error {
+  constructor(
+    message: string,
+    public readonly key: string,
+    public readonly reason: DecryptionErrorReason,
+    public readonly keyId?: string
+  ) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+interface Envelope {
+  v: 1;
+  kid: string;
+  iv: string;
+  ct: string;
+}
+
+interface PasswordKeyRecord {
+  id: string;
+  salt: string;
+  iterations: number;
+  check?: string;          // Known value encrypted with the key, used to detect a wrong password
+}
+
+interface SecureKeyRecord {
+  id: string;
+  key: string;
+}
+
+const PASSWORD_CHECK = 'r1-encrypted-storage';
+
+type KeySource =
+  | { type: 'password'; storage: StorageAPI; metaKey: string; records: PasswordKeyRecord[] }
+  | { type: 'secure'; storage: StorageAPI; keyName: string; records: SecureKeyRecord[] }
+  | { type: 'manual' };
+
+/**
+ * AES-GCM encrypted store with key rotation and tamper detection
+ * The storage key is authenticated with each value, so ciphertexts cannot be swapped between keys
+ */
+export class EncryptedStorage implements StorageAPI {
+  private cryptoKeys: Map<string, CryptoKey> = new Map();
+  private index?: Promise<Set<string>>;
+  private indexWrite: Promise<void> = Promise.resolve();
+  private source: KeySource = { type: 'manual' };
+
+  constructor(private storage: StorageAPI, private current: EncryptionKey, private options: EncryptedStorageOptions = {}) {
+    this.cryptoKeys.set(current.id, current.key);
+  }
+
+  /**
+   * Check if WebCrypto is available
+   */
+  static isSupported(): boolean {
+    return typeof crypto !== 'undefined' && !!crypto.subtle;
+  }
+
+  /**
+   * Open a store whose key is derived from a password
+   * The salt and iteration count are kept (unencrypted) in the wrapped storage
+   * @param storage Storage to wrap
+   * @param password Password
+   * @param options Key derivation options
+   */
+  static async fromPassword(storage: StorageAPI, password: string, options: PasswordKeyOptions = {}): Promise<EncryptedStorage> {
+    const metaKey = options.metaKey ?? 'encryption_meta';
+    let records = this.parseRecords<PasswordKeyRecord>(await storage.getItem(metaKey));
+
+    let current: EncryptionKey;
+    if (records.length === 0) {
+      const created = await this.createPasswordKey(password, metaKey, options.iterations);
+      records = [created.record];
+      current = created.key;
+      await storage.setItem(metaKey, JSON.stringify(records));
+    } else {
+      current = await this.deriveKey(password, records[0]);
+      if (records[0].check) {
+        try {
+          await this.open(metaKey, records[0].check, current);
+        } catch {
+          throw new DecryptionError('Incorrect password', metaKey, 'wrong-password', current.id);
+        }
+      }
+    }
+
+    const encrypted = new EncryptedStorage(storage, current, { indexKey: `${metaKey}_index`, ...options });
+    encrypted.source = { type: 'password', storage, metaKey, records };
+    return encrypted;
+  }
+
+  /**
+   * Open a store whose random key is held in secure storage
+   * @param storage Storage to wrap
+   * @param secure Storage for the key material, e.g. window.creationStorage.secure
+   * @param options Key options
+   */
+  static async fromSecureStorage(storage: StorageAPI, secure: StorageAPI, options: SecureKeyOptions = {}): Promise<EncryptedStorage> {
+    const keyName = options.keyName ?? 'encryption_key';
+    let records = this.parseRecords<SecureKeyRecord>(await secure.getItem(keyName));
+
+    if (records.length === 0) {
+      records = [await this.createSecureRecord()];
+      await secure.setItem(keyName, JSON.stringify(records));
+    }
+
+    const keys = await Promise.all(records.map(record => this.importKey(record)));
+    const encrypted = new EncryptedStorage(storage, keys[0], { indexKey: `${keyName}_index`, ...options });
+    keys.slice(1).forEach(key => encrypted.cryptoKeys.set(key.id, key.key));
+    encrypted.source = { type: 'secure', storage: secure, keyName, records };
+    return encrypted;
+  }
+
+  /**
+   * Derive an AES-GCM key from a password with PBKDF2 (SHA-256)
+   * @param password Password
+   * @param record Key id, Base64 salt and iteration count
+   */
+  static async deriveKey(password: string, record: { id: string; salt: string; iterations: number }): Promise<EncryptionKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+    const key = await crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt: this.fromBase64(record.salt), iterations: record.iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    return { id: record.id, key };
+  }
+
+  /**
+   * Generate a random AES-GCM key
+   */
+  static async generateKey(): Promise<EncryptionKey> {
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    return { id: this.createKeyId(), key };
+  }
+
+  /**
+   * Encrypt and store a value
+   * @param key Storage key
+   * @param value Data to store (strings are stored as-is, other values JSON stringified)
+   */
+  async setItem(key: string, value: any): Promise<void> {
+    const plaintext = typeof value === 'string' ? value : JSON.stringify(value);
+    await this.storage.setItem(key, await EncryptedStorage.seal(key, plaintext, this.current));
+    await this.updateIndex(keys => keys.add(key));
+  }
+
+  /**
+   * Retrieve and decrypt a value
+   * @param key Storage key
+   * @param parseJson Whether to parse as JSON (default: true)
+   * @throws DecryptionError when the value is malformed, uses an unknown key or was modified
+   */
+  async getItem<T = any>(key: string, parseJson: boolean = true): Promise<T | null> {
+    const stored = await this.storage.getItem(key);
+    if (stored === null || stored === undefined) return null;
+
+    const plaintext = await this.decrypt(key, stored);
+    if (!parseJson) return plaintext as T;
+
+    try {
+      return JSON.parse(plaintext);
+    } catch {
+      return plaintext as T;
+    }
+  }
+
+  /**
+   * Remove an item
+   * @param key Storage key
+   */
+  async removeItem(key: string): Promise<void> {
+    await this.storage.removeItem(key);
+    await this.updateIndex(keys => keys.delete(key));
+  }
+
+  /**
+   * Remove every value written through this store (the key metadata is kept)
+   */
+  async clear(): Promise<void> {
+    const keys = await this.keys();
+    await Promise.all(keys.map(key => this.storage.removeItem(key)));
+    await this.updateIndex(index => index.clear());
+  }
+
+  /**
+   * List keys written through this store
+   */
+  async keys(): Promise<string[]> {
+    return [...(await this.loadIndex())];
+  }
+
+  /**
+   * Id of the key used for new writes
+   */
+  get keyId(): string {
+    return this.current.id;
+  }
+
+  /**
+   * Re-encrypt all values with a new key
+   * Password stores need the new password, secure-key stores generate a new key,
+   * and stores created with the constructor need an explicit key. The old key stays in the
+   * key metadata until every value is rewritten; an interrupted password rotation is resumed
+   * by opening the store with the old password and rotating to the same new password again
+   * @param replacement New password or key
+   * @returns Number of re-encrypted values
+   */
+  async rotateKey(replacement?: string | EncryptionKey): Promise<number> {
+    const source = this.source;
+    let next: EncryptionKey;
+    let passwordRecord: PasswordKeyRecord | undefined;
+
+    if (typeof replacement === 'object') {
+      next = replacement;
+    } else if (source.type === 'password') {
+      if (replacement === undefined) {
+        throw new Error('A new password is required to rotate a password-derived key');
+      }
+      // Reuse the key of an interrupted rotation to the same password, so values it already rewrote stay readable
+      const created = await EncryptedStorage.findPasswordKey(replacement, source.metaKey, source.records.slice(1))
+        ?? await EncryptedStorage.createPasswordKey(replacement, source.metaKey, source.records[0]?.iterations);
+      next = created.key;
+      passwordRecord = created.record;
+      // The old record stays first, so the old password still opens the store until the rotation completes
+      source.records = [source.records[0], created.record];
+      await source.storage.setItem(source.metaKey, JSON.stringify(source.records));
+    } else if (source.type === 'secure') {
+      const record = await EncryptedStorage.createSecureRecord();
+      next = await EncryptedStorage.importKey(record);
+      // Keep the old key until every value is re-encrypted, so an interrupted rotation can be resumed
+      source.records = [record, ...source.records];
+      await source.storage.setItem(source.keyName, JSON.stringify(source.records));
+    } else {
+      throw new Error('An encryption key is required to rotate a store created with a key');
+    }
+
+    this.cryptoKeys.set(next.id, next.key);
+    const keys = await this.keys();
+    const updates: Array<[string, string]> = [];
+    for (const key of keys) {
+      const stored = await this.storage.getItem(key);
+      if (stored === null || stored === undefined) continue;
+      updates.push([key, await EncryptedStorage.seal(key, await this.decrypt(key, stored), next)]);
+    }
+
+    for (const [key, envelope] of updates) {
+      await this.storage.setItem(key, envelope);
+    }
+    if (source.type === 'password' && passwordRecord) {
+      source.records = [passwordRecord];
+      await source.storage.setItem(source.metaKey, JSON.stringify(source.records));
+    }
+    if (source.type === 'secure') {
+      source.records = [source.records[0]];
+      await source.storage.setItem(source.keyName, JSON.stringify(source.records));
+    }
+
+    this.cryptoKeys = new Map([[next.id, next.key]]);
+    this.current = next;
+    return updates.length;
+  }
+
+  private static async seal(key: string, plaintext: string, encryptionKey: EncryptionKey): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(key) },
+      encryptionKey.key,
+      new TextEncoder().encode(plaintext)
+    );
+
+    const envelope: Envelope = {
+      v: 1,
+      kid: encryptionKey.id,
+      iv: this.toBase64(iv),
+      ct: this.toBase64(new Uint8Array(ciphertext))
+    };
+    return JSON.stringify(envelope);
+  }
+
+  private async decrypt(key: string, stored: string): Promise<string> {
+    let envelope: Envelope;
+    try {
+      envelope = JSON.parse(stored);
+    } catch {
+      throw new DecryptionError(`Value for "${key}" is not encrypted`, key, 'malformed');
+    }
+    if (!envelope || envelope.v !== 1 || typeof envelope.iv !== 'string' || typeof envelope.ct !== 'string') {
+      throw new DecryptionError(`Value for "${key}" is not encrypted`, key, 'malformed');
+    }
+
+    const cryptoKey = this.cryptoKeys.get(envelope.kid);
+    if (!cryptoKey) {
+      throw new DecryptionError(`Value for "${key}" uses unknown key ${envelope.kid}`, key, 'unknown-key', envelope.kid);
+    }
+
+    try {
+      return await EncryptedStorage.open(key, envelope, { id: envelope.kid, key: cryptoKey });
+    } catch {
+      throw new DecryptionError(`Value for "${key}" failed authentication`, key, 'tampered', envelope.kid);
+    }
+  }
+
+  private static async open(key: string, envelope: Envelope | string, encryptionKey: EncryptionKey): Promise<string> {
+    const parsed: Envelope = typeof envelope === 'string' ? JSON.parse(envelope) : envelope;
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: this.fromBase64(parsed.iv), additionalData: new TextEncoder().encode(key) },
+      encryptionKey.key,
+      this.fromBase64(parsed.ct)
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+
+  private loadIndex(): Promise<Set<string>> {
+    if (!this.index) {
+      this.index = this.storage.getItem(this.indexKey).then(stored => {
+        const keys = EncryptedStorage.parseRecords<string>(stored);
+        return new Set(keys.filter(key => typeof key === 'string'));
+      });
+    }
+    return this.index;
+  }
+
+  private updateIndex(change: (keys: Set<string>) => void): Promise<void> {
+    this.indexWrite = this.indexWrite.then(async () => {
+      const keys = await this.loadIndex();
+      change(keys);
+      await this.storage.setItem(this.indexKey, JSON.stringify([...keys]));
+    });
+    return this.indexWrite;
+  }
+
+  private get indexKey(): string {
+    return this.options.indexKey ?? 'encrypted_index';
+  }
+
+  private static async createPasswordKey(
+    password: string,
+    metaKey: string,
+    iterations: number = 100000
+  ): Promise<{ record: PasswordKeyRecord; key: EncryptionKey }> {
+    const record: PasswordKeyRecord = {
+      id: this.createKeyId(),
+      salt: this.toBase64(crypto.getRandomValues(new Uint8Array(16))),
+      iterations
+    };
+    const key = await this.deriveKey(password, record);
+    record.check = await this.seal(metaKey, PASSWORD_CHECK, key);
+    return { record, key };
+  }
+
+  private static async findPasswordKey(
+    password: string,
+    metaKey: string,
+    records: PasswordKeyRecord[]
+  ): Promise<{ record: PasswordKeyRecord; key: EncryptionKey } | undefined> {
+    for (const record of records) {
+      if (!record.check) continue;
+      const key = await this.deriveKey(password, record);
+      try {
+        await this.open(metaKey, record.check, key);
+        return { record, key };
+      } catch {
+        // Derived from a different password
+      }
+    }
+    return undefined;
+  }
+
+  private static async createSecureRecord(): Promise<SecureKeyRecord> {
+    const generated = await this.generateKey();
+    const raw = await crypto.subtle.exportKey('raw', generated.key);
+    return { id: generated.id, key: this.toBase64(new Uint8Array(raw)) };
+  }
+
+  private static async importKey(record: SecureKeyRecord): Promise<EncryptionKey> {
+    const key = await crypto.subtle.importKey('raw', this.fromBase64(record.key), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+    return { id: record.id, key };
+  }
+
+  private static parseRecords<T>(stored: string | null): T[] {
+    if (!stored) return [];
+    try {
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private static createKeyId(): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(6)), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private static toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary);
+  }
+
+  private static fromBase64(value: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Expiry index for storage entries with a time to live
+ * Tracks only the keys that expire, so sweeps don't need to scan all of storage
+ */
+
+import type { StorageAPI } from '../types';
+
+export interface SetItemOptions {
+  ttl?: number;            // Time to live in milliseconds (default: no expiry)
+}
+
+/**
+ * Persisted map of key to expiry time
+ */
+export class ExpiryIndex {
+  private entries?: Promise<Map<string, number>>;
+  private write: Promise<void> = Promise.resolve();
+
+  constructor(private storage: StorageAPI, private indexKey: string = 'ttl_index') {}
+
+  /**
+   * Record the expiry time of a key
+   * @param key Storage key
+   * @param expiresAt Expiry time in milliseconds since the epoch
+   */
+  set(key: string, expiresAt: number): Promise<void> {
+    return this.update(entries => {
+      entries.set(key, expiresAt);
+      return true;
+    });
+  }
+
+  /**
+   * Stop tracking a key
+   * @param key Storage key
+   */
+  delete(key: string): Promise<void> {
+    return this.update(entries => entries.delete(key));
+  }
+
+  /**
+   * Expiry time of a key, or undefined when it doesn't expire
+   * @param key Storage key
+   */
+  async get(key: string): Promise<number | undefined> {
+    return (await this.load()).get(key);
+  }
+
+  /**
+   * Keys whose expiry time has passed
+   * @param now Current time (default: Date.now())
+   */
+  async expired(now: number = Date.now()): Promise<string[]> {
+    const entries = await this.load();
+    return [...entries].filter(([, expiresAt]) => expiresAt <= now).map(([key]) => key);
+  }
+
+  /**
+   * Tracked keys
+   */
+  async keys(): Promise<string[]> {
+    return [...(await this.load()).keys()];
+  }
+
+  /**
+   * Number of tracked keys
+   */
+  async size(): Promise<number> {
+    return (await this.load()).size;
+  }
+
+  /**
+   * Forget the cached index (after the underlying storage was cleared)
+   */
+  reset(): void {
+    this.entries = undefined;
+  }
+
+  private load(): Promise<Map<string, number>> {
+    if (!this.entries) {
+      this.entries = this.storage.getItem(this.indexKey).then(stored => {
+        try {
+          const parsed = stored ? JSON.parse(stored) : {};
+          return new Map(Object.entries(parsed).filter((entry): entry is [string, number] => typeof entry[1] === 'number'));
+        } catch {
+          return new Map();
+        }
+      });
+    }
+    return this.entries;
+  }
+
+  /**
+   * Apply a change and persist it; writes are serialized so concurrent calls don't drop entries
+   */
+  private update(change: (entries: Map<string, number>) => boolean): Promise<void> {
+    const next = this.write.then(async () => {
+      const entries = await this.load();
+      if (!change(entries)) return;
+
+      if (entries.size > 0) {
+        await this.storage.setItem(this.indexKey, JSON.stringify(Object.fromEntries(entries)));
+      } else {
+        await this.storage.removeItem(this.indexKey);
+      }
+    });
+    this.write = next.catch(() => {});
+    return next;
+  }
+}
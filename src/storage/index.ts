@@ -4,6 +4,34 @@
  */
 
 import type { StorageAPI, CreationStorage } from '../types';
+import { StorageMigrator } from './migrations';
+import type { MigrationResult } from './migrations';
+import { EncryptedStorage } from './encrypted';
+import type { PasswordKeyOptions, SecureKeyOptions } from './encrypted';
+import { DefaultCodec, StorageEncoding, ValueFraming } from './codec';
+import type { StorageCodec, ValueFramingOptions } from './codec';
+import { ExpiryIndex } from './expiry';
+import { Collection } from './collection';
+import type { CollectionOptions, CollectionDocument } from './collection';
+import { PersistedStore } from './store';
+import { StorageBackup, TrackedStorage } from './backup';
+import type { BackupBundle, BackupExportOptions, BackupImportOptions, BackupImportResult, BackupStoreName } from './backup';
+import type { StoreOptions } from './store';
+import type { SetItemOptions } from './expiry';
+import { StorageTransaction, StorageTransactionError } from './transaction';
+import type { TransactionJournal, TransactionOperation, TransactionRecovery } from './transaction';
+
+const TRANSACTION_JOURNAL_KEY = 'tx_journal';
+
+// Keys holding the storage stack's own state (journal, TTL index, backup key index, schema version)
+const RESERVED_KEYS = new Set([TRANSACTION_JOURNAL_KEY, 'ttl_index', '__key_index', 'schema_version']);
+
+const NAMESPACE_INDEX_KEY = '__keys';
+
+export interface StorageWrapperOptions extends ValueFramingOptions {
+  codec?: StorageCodec;    // Value codec (default: DefaultCodec)
+  sweepInterval?: number;  // Milliseconds between sweeps of expired entries, 0 to disable (default: 60000)
+}
 
 /**
  * Utility functions for Base64 encoding/decoding
@@ -15,7 +43,7 @@ export class Base64Utils {
    */
   static encode(data: any): string {
     const jsonString = typeof data === 'string' ? data : JSON.stringify(data);
-    return btoa(jsonString);
+    return StorageEncoding.textToBase64(jsonString);
   }
 
   /**
@@ -24,7 +52,7 @@ export class Base64Utils {
    * @param parseJson Whether to parse as JSON (default: true)
    */
   static decode<T = any>(encoded: string, parseJson: boolean = true): T {
-    const decoded = atob(encoded);
+    const decoded = StorageEncoding.base64ToText(encoded);
     return parseJson ? JSON.parse(decoded) : (decoded as T);
   }
 
@@ -37,7 +65,7 @@ export class Base64Utils {
     if (!encoded) return null;
     
     try {
-      const decoded = atob(encoded);
+      const decoded = StorageEncoding.base64ToText(encoded);
       return parseJson ? JSON.parse(decoded) : (decoded as T);
     } catch (error) {
       console.warn('Failed to decode storage data:', error);
@@ -48,36 +76,190 @@ export class Base64Utils {
 
 /**
  * Enhanced storage wrapper with automatic Base64 encoding and JSON support
+ * Also stores Blobs and ArrayBuffers, and splits large values across chunked keys
  */
-class StorageWrapper implements StorageAPI {
-  constructor(private storage: StorageAPI) {}
+export class StorageWrapper implements StorageAPI {
+  private codec: StorageCodec;
+  private framing: ValueFraming;
+  private expiry: ExpiryIndex;
+  private sweepTimer?: ReturnType<typeof setInterval>;
+  private loading: Map<string, Promise<any>> = new Map();
+  private transactions: Promise<void> = Promise.resolve();
+  private recovery?: Promise<TransactionRecovery>;
+
+  constructor(private storage: StorageAPI, private options: StorageWrapperOptions = {}) {
+    this.codec = options.codec ?? new DefaultCodec();
+    this.framing = new ValueFraming(storage, this.options);
+    this.expiry = new ExpiryIndex(storage);
+
+    // Resume sweeping entries that were stored with a TTL in a previous session
+    this.expiry.size()
+      .then(size => { if (size > 0) this.scheduleSweep(); })
+      .catch(() => {});
+  }
+
+  /**
+   * Change the codec, chunk size or compression for subsequent writes
+   * Values written with other chunk or compression settings can still be read
+   * @param options Wrapper options
+   */
+  configure(options: StorageWrapperOptions): void {
+    Object.assign(this.options, options);
+    if (options.codec) this.codec = options.codec;
+    if (options.sweepInterval !== undefined && this.sweepTimer !== undefined) {
+      this.stopSweep();
+      this.scheduleSweep();
+    }
+  }
 
   /**
    * Store data with automatic Base64 encoding
    * @param key Storage key
-   * @param value Data to store (will be JSON stringified and Base64 encoded)
+   * @param value Data to store (JSON value, string, Blob, ArrayBuffer or typed array)
+   * @param options Time to live
+   * @throws Error when the key is reserved for the storage's own state
    */
-  async setItem(key: string, value: any): Promise<void> {
-    const encoded = Base64Utils.encode(value);
-    await this.storage.setItem(key, encoded);
+  async setItem(key: string, value: any, options: SetItemOptions = {}): Promise<void> {
+    this.assertWritable(key);
+    const encoded = await this.codec.encode(value);
+
+    if (options.ttl !== undefined) {
+      const expiresAt = Date.now() + options.ttl;
+      await this.framing.write(key, ValueFraming.withExpiry(encoded, expiresAt));
+      await this.expiry.set(key, expiresAt);
+      this.scheduleSweep();
+    } else {
+      await this.framing.write(key, encoded);
+      await this.expiry.delete(key);
+    }
+  }
+
+  /**
+   * Get a value, or create and store it when missing or expired
+   * Concurrent calls for the same key share one factory call
+   * @param key Storage key
+   * @param factory Creates the value
+   * @param ttl Time to live in milliseconds (default: no expiry)
+   */
+  async getOrSet<T = any>(key: string, factory: () => T | Promise<T>, ttl?: number): Promise<T> {
+    const existing = await this.getItem<T>(key);
+    if (existing !== null) return existing;
+
+    let pending = this.loading.get(key);
+    if (!pending) {
+      pending = (async () => {
+        const value = await factory();
+        // Strings are stored as JSON so they read back through getItem's JSON parsing
+        await this.setItem(key, typeof value === 'string' ? JSON.stringify(value) : value, { ttl });
+        return value;
+      })().finally(() => this.loading.delete(key));
+      this.loading.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Run a group of writes atomically
+   * Writes are staged until the callback resolves, then committed through a journal key;
+   * if the callback throws, nothing is written. Transactions on one store run one at a time.
+   * @param callback Receives the transaction; reads see its own uncommitted writes
+   * @returns The callback's result
+   */
+  async transaction<T>(callback: (tx: StorageTransaction) => T | Promise<T>): Promise<T> {
+    const run = this.transactions.then(async () => {
+      await this.recoverTransactions();
+
+      const tx = new StorageTransaction((key, parseJson) => this.getItem(key, parseJson), this.codec);
+      const result = await callback(tx);
+      const operations = tx.getOperations();
+      if (operations.length > 0) {
+        await this.commit(operations);
+      }
+      return result;
+    });
+
+    this.transactions = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  /**
+   * Finish a transaction that was interrupted during commit
+   * Replays the journal, or restores the previous values if the replay fails.
+   * Runs once per session, before the first transaction and from R1SDK.initialize()
+   */
+  recoverTransactions(): Promise<TransactionRecovery> {
+    if (!this.recovery) {
+      this.recovery = this.recoverJournal().catch(error => {
+        this.recovery = undefined;
+        throw error;
+      });
+    }
+    return this.recovery;
+  }
+
+  /**
+   * Delete expired entries
+   * Runs periodically while entries with a TTL exist
+   * @returns Number of deleted entries
+   */
+  async sweepExpired(): Promise<number> {
+    const expired = await this.expiry.expired();
+    for (const key of expired) {
+      await this.framing.remove(key);
+      await this.expiry.delete(key);
+    }
+    if ((await this.expiry.size()) === 0) this.stopSweep();
+    return expired.length;
   }
 
   /**
    * Retrieve and decode data
    * @param key Storage key
    * @param parseJson Whether to parse as JSON (default: true)
+   * @throws StorageIntegrityError when a chunked value is incomplete or corrupted
    */
   async getItem<T = any>(key: string, parseJson: boolean = true): Promise<T | null> {
-    const encoded = await this.storage.getItem(key);
-    return Base64Utils.safeDecode<T>(encoded, parseJson);
+    let stored = await this.framing.read(key);
+    if (!stored) return null;
+
+    const frame = ValueFraming.parseFrame(stored);
+    if (frame?.t === 'ttl') {
+      if (frame.expiresAt <= Date.now()) {
+        await this.removeItem(key);
+        return null;
+      }
+      stored = frame.data;
+    }
+
+    try {
+      return await this.codec.decode<T>(stored, parseJson);
+    } catch (error) {
+      console.warn('Failed to decode storage data:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Check if a key holds a value that has not expired
+   * @param key Storage key
+   */
+  async has(key: string): Promise<boolean> {
+    const stored = await this.storage.getItem(key);
+    if (stored === null || stored === undefined) return false;
+
+    const expiresAt = await this.expiry.get(key);
+    return expiresAt === undefined || expiresAt > Date.now();
   }
 
   /**
    * Remove item from storage
    * @param key Storage key
+   * @throws Error when the key is reserved for the storage's own state
    */
   async removeItem(key: string): Promise<void> {
-    await this.storage.removeItem(key);
+    this.assertWritable(key);
+    await this.framing.remove(key);
+    await this.expiry.delete(key);
   }
 
   /**
@@ -85,14 +267,29 @@ class StorageWrapper implements StorageAPI {
    */
   async clear(): Promise<void> {
     await this.storage.clear();
+    this.expiry.reset();
+    this.stopSweep();
+  }
+
+  /**
+   * Forget cached indexes after the underlying storage was changed directly (e.g. by a backup import)
+   */
+  reload(): void {
+    this.expiry.reset();
+    this.stopSweep();
+    this.expiry.size()
+      .then(size => { if (size > 0) this.scheduleSweep(); })
+      .catch(() => {});
   }
 
   /**
    * Store raw Base64 data (for manual encoding)
    * @param key Storage key
    * @param base64Value Base64 encoded string
+   * @throws Error when the key is reserved for the storage's own state
    */
   async setRaw(key: string, base64Value: string): Promise<void> {
+    this.assertWritable(key);
     await this.storage.setItem(key, base64Value);
   }
 
@@ -103,6 +300,272 @@ class StorageWrapper implements StorageAPI {
   async getRaw(key: string): Promise<string | null> {
     return await this.storage.getItem(key);
   }
+
+  private assertWritable(key: string): void {
+    if (RESERVED_KEYS.has(key)) {
+      throw new Error(`Storage key "${key}" is reserved`);
+    }
+  }
+
+  private async commit(operations: TransactionOperation[]): Promise<void> {
+    const previous: Record<string, string | null> = {};
+    for (const operation of operations) {
+      previous[operation.key] = await this.framing.read(operation.key);
+    }
+
+    const journal: TransactionJournal = {
+      id: `tx_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+      startedAt: Date.now(),
+      operations,
+      previous
+    };
+    await this.storage.setItem(TRANSACTION_JOURNAL_KEY, JSON.stringify(journal));
+
+    try {
+      await this.applyOperations(operations);
+    } catch (error) {
+      const rolledBack = await this.rollback(journal);
+      throw new StorageTransactionError(
+        `Failed to commit transaction: ${(error as Error)?.message ?? error}`,
+        error,
+        rolledBack
+      );
+    }
+    await this.storage.removeItem(TRANSACTION_JOURNAL_KEY);
+  }
+
+  private async recoverJournal(): Promise<TransactionRecovery> {
+    const stored = await this.storage.getItem(TRANSACTION_JOURNAL_KEY);
+    if (!stored) return 'none';
+
+    let journal: TransactionJournal;
+    try {
+      journal = JSON.parse(stored);
+    } catch {
+      // The journal is written before any value, so an unreadable journal means nothing was applied
+      await this.storage.removeItem(TRANSACTION_JOURNAL_KEY);
+      return 'rolled-back';
+    }
+
+    let outcome: TransactionRecovery = 'replayed';
+    try {
+      await this.applyOperations(journal.operations);
+    } catch (error) {
+      console.warn('Failed to replay storage transaction, rolling back:', error);
+      if (!(await this.rollback(journal))) {
+        throw new StorageTransactionError('Failed to recover interrupted transaction', error, false);
+      }
+      outcome = 'rolled-back';
+    }
+
+    await this.storage.removeItem(TRANSACTION_JOURNAL_KEY);
+    return outcome;
+  }
+
+  private async applyOperations(operations: TransactionOperation[]): Promise<void> {
+    for (const operation of operations) {
+      if (operation.data === undefined) {
+        await this.framing.remove(operation.key);
+        await this.expiry.delete(operation.key);
+      } else {
+        await this.framing.write(operation.key, operation.data);
+        if (operation.expiresAt !== undefined) {
+          await this.expiry.set(operation.key, operation.expiresAt);
+          this.scheduleSweep();
+        } else {
+          await this.expiry.delete(operation.key);
+        }
+      }
+    }
+  }
+
+  private async rollback(journal: TransactionJournal): Promise<boolean> {
+    let restored = true;
+    for (const [key, data] of Object.entries(journal.previous)) {
+      try {
+        if (data === null) {
+          await this.framing.remove(key);
+          await this.expiry.delete(key);
+        } else {
+          await this.framing.write(key, data);
+          // Previous values keep their TTL frame, so their expiry can be indexed again
+          const frame = ValueFraming.parseFrame(data);
+          if (frame?.t === 'ttl') {
+            await this.expiry.set(key, frame.expiresAt);
+          } else {
+            await this.expiry.delete(key);
+          }
+        }
+      } catch {
+        restored = false;
+      }
+    }
+    if (restored) {
+      await this.storage.removeItem(TRANSACTION_JOURNAL_KEY);
+    }
+    return restored;
+  }
+
+  private scheduleSweep(): void {
+    const interval = this.options.sweepInterval ?? 60000;
+    if (this.sweepTimer !== undefined || interval <= 0) return;
+
+    this.sweepTimer = setInterval(() => {
+      this.sweepExpired().catch(error => console.warn('Failed to sweep expired storage entries:', error));
+    }, interval);
+  }
+
+  private stopSweep(): void {
+    if (this.sweepTimer !== undefined) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+}
+
+/**
+ * Storage scoped to a key prefix, with a maintained index of its keys
+ * Keys are stored as `<namespace>:<key>` and the index as `<namespace>:__keys`
+ */
+export class NamespacedStorage implements StorageAPI {
+  private index?: Promise<Set<string>>;
+  private indexWrite: Promise<void> = Promise.resolve();
+
+  constructor(private storage: StorageWrapper, readonly name: string) {
+    if (!name || name.includes(':')) {
+      throw new Error(`Invalid storage namespace "${name}"`);
+    }
+  }
+
+  /**
+   * Store data under a namespaced key
+   * @param key Key within the namespace
+   * @param value Data to store (will be JSON stringified and Base64 encoded)
+   * @param options Time to live
+   */
+  async setItem(key: string, value: any, options: SetItemOptions = {}): Promise<void> {
+    await this.storage.setItem(this.prefixed(key), value, options);
+    await this.updateIndex(keys => keys.add(key));
+  }
+
+  /**
+   * Get a value, or create and store it when missing or expired
+   * @param key Key within the namespace
+   * @param factory Creates the value
+   * @param ttl Time to live in milliseconds (default: no expiry)
+   */
+  async getOrSet<T = any>(key: string, factory: () => T | Promise<T>, ttl?: number): Promise<T> {
+    const value = await this.storage.getOrSet<T>(this.prefixed(key), factory, ttl);
+    await this.updateIndex(keys => keys.add(key));
+    return value;
+  }
+
+  /**
+   * Retrieve and decode data
+   * @param key Key within the namespace
+   * @param parseJson Whether to parse as JSON (default: true)
+   */
+  async getItem<T = any>(key: string, parseJson: boolean = true): Promise<T | null> {
+    return this.storage.getItem<T>(this.prefixed(key), parseJson);
+  }
+
+  /**
+   * Remove an item from the namespace
+   * @param key Key within the namespace
+   */
+  async removeItem(key: string): Promise<void> {
+    await this.storage.removeItem(this.prefixed(key));
+    await this.updateIndex(keys => keys.delete(key));
+  }
+
+  /**
+   * Check if a key exists in the namespace
+   * @param key Key within the namespace
+   */
+  async has(key: string): Promise<boolean> {
+    if (!(await this.loadIndex()).has(key)) return false;
+    if (await this.storage.has(this.prefixed(key))) return true;
+
+    // Expired or removed by a sweep
+    await this.updateIndex(keys => keys.delete(key));
+    return false;
+  }
+
+  /**
+   * List the keys in the namespace (without the prefix)
+   * Keys whose values expired are dropped from the index
+   */
+  async keys(): Promise<string[]> {
+    const keys = [...(await this.loadIndex())];
+    const present = await Promise.all(keys.map(key => this.storage.has(this.prefixed(key))));
+    const gone = keys.filter((_, i) => !present[i]);
+    if (gone.length > 0) {
+      await this.updateIndex(index => gone.forEach(key => index.delete(key)));
+    }
+    return keys.filter((_, i) => present[i]);
+  }
+
+  /**
+   * List key/value pairs in the namespace
+   */
+  async entries<T = any>(): Promise<Array<[string, T]>> {
+    const keys = await this.keys();
+    const values = await Promise.all(keys.map(key => this.getItem<T>(key)));
+    return keys
+      .map((key, i): [string, T | null] => [key, values[i]])
+      .filter((entry): entry is [string, T] => entry[1] !== null);
+  }
+
+  /**
+   * Remove every key in this namespace (other data is left untouched)
+   */
+  async clear(): Promise<void> {
+    const keys = await this.keys();
+    await Promise.all(keys.map(key => this.storage.removeItem(this.prefixed(key))));
+    await this.updateIndex(index => index.clear());
+  }
+
+  /**
+   * Storage keys holding the namespace, including its index
+   */
+  async storedKeys(): Promise<string[]> {
+    return [this.indexKey, ...[...(await this.loadIndex())].map(key => this.prefixed(key))];
+  }
+
+  private prefixed(key: string): string {
+    if (key === NAMESPACE_INDEX_KEY) {
+      throw new Error(`Storage key "${key}" is reserved for the namespace index`);
+    }
+    return `${this.name}:${key}`;
+  }
+
+  private get indexKey(): string {
+    return `${this.name}:${NAMESPACE_INDEX_KEY}`;
+  }
+
+  private loadIndex(): Promise<Set<string>> {
+    if (!this.index) {
+      this.index = this.storage.getItem<string[]>(this.indexKey)
+        .then(keys => new Set(Array.isArray(keys) ? keys.filter(key => key !== NAMESPACE_INDEX_KEY) : []));
+    }
+    return this.index;
+  }
+
+  /**
+   * Apply a change to the key index; writes are serialized so concurrent calls don't drop keys
+   */
+  private updateIndex(change: (keys: Set<string>) => void): Promise<void> {
+    this.indexWrite = this.indexWrite.then(async () => {
+      const keys = await this.loadIndex();
+      change(keys);
+      if (keys.size > 0) {
+        await this.storage.setItem(this.indexKey, [...keys]);
+      } else {
+        await this.storage.removeItem(this.indexKey);
+      }
+    });
+    return this.indexWrite;
+  }
 }
 
 /**
@@ -111,6 +574,11 @@ class StorageWrapper implements StorageAPI {
 export class R1Storage {
   private _plain?: StorageWrapper;
   private _secure?: StorageWrapper;
+  private plainNamespaces: Map<string, NamespacedStorage> = new Map();
+  private secureNamespaces: Map<string, NamespacedStorage> = new Map();
+  private migrators: { plain?: StorageMigrator; secure?: StorageMigrator } = {};
+  private collections: Map<string, Collection<any>> = new Map();
+  private hosts: Partial<Record<BackupStoreName, TrackedStorage>> = {};
 
   /**
    * Plain storage (unencrypted, Base64 encoded)
@@ -120,7 +588,7 @@ export class R1Storage {
       if (!window.creationStorage?.plain) {
         throw new Error('Plain storage not available. Make sure you are running in R1 environment.');
       }
-      this._plain = new StorageWrapper(window.creationStorage.plain);
+      this._plain = new StorageWrapper(this.host('plain'));
     }
     return this._plain;
   }
@@ -134,11 +602,210 @@ export class R1Storage {
       if (!window.creationStorage?.secure) {
         throw new Error('Secure storage not available. Make sure you are running on Android M+ in R1 environment.');
       }
-      this._secure = new StorageWrapper(window.creationStorage.secure);
+      this._secure = new StorageWrapper(this.host('secure'));
     }
     return this._secure;
   }
 
+  /**
+   * Host storage that records written keys for backups
+   */
+  private host(name: BackupStoreName): TrackedStorage {
+    let host = this.hosts[name];
+    if (!host) {
+      host = new TrackedStorage(window.creationStorage[name]);
+      this.hosts[name] = host;
+    }
+    return host;
+  }
+
+  /**
+   * Record keys that may predate key recording: the TTL index and its keys, the schema
+   * version, and the keys of namespaces and collections opened in this session
+   */
+  private async trackKnownKeys(name: BackupStoreName): Promise<void> {
+    const host = this.host(name);
+    const namespaces = [...(name === 'secure' ? this.secureNamespaces : this.plainNamespaces).values()];
+    const collections = [...this.collections]
+      .filter(([cacheKey]) => cacheKey.startsWith(`${name}:`))
+      .map(([, collection]) => collection);
+
+    await host.track([
+      'ttl_index',
+      'schema_version',
+      ...(await new ExpiryIndex(host).keys()),
+      ...(await Promise.all(namespaces.map(namespace => namespace.storedKeys()))).flat(),
+      ...(await Promise.all(collections.map(collection => collection.storedKeys()))).flat()
+    ]);
+  }
+
+  /**
+   * Get a storage scope whose keys don't collide with other modules
+   * @param name Namespace name (must not contain ':')
+   * @param useSecure Whether to use secure storage (default: false)
+   */
+  namespace(name: string, useSecure: boolean = false): NamespacedStorage {
+    const cache = useSecure ? this.secureNamespaces : this.plainNamespaces;
+    let scoped = cache.get(name);
+    if (!scoped) {
+      scoped = new NamespacedStorage(useSecure ? this.secure : this.plain, name);
+      cache.set(name, scoped);
+    }
+    return scoped;
+  }
+
+  /**
+   * Create a reactive state store
+   * With a key, the store hydrates from storage and writes changes back after they settle
+   * @param initial Initial state (and defaults for fields missing from stored objects)
+   * @param options Storage key, storage selection and write debounce
+   */
+  store<T>(initial: T, options: StoreOptions = {}): PersistedStore<T> {
+    return new PersistedStore<T>(() => options.secure ? this.secure : this.plain, initial, options);
+  }
+
+  /**
+   * Get a document collection
+   * The first call for a name decides its indexes and storage
+   * @param name Collection name (must not contain ':')
+   * @param options Indexed fields and storage selection
+   */
+  collection<T extends CollectionDocument = CollectionDocument>(name: string, options: CollectionOptions<T> = {}): Collection<T> {
+    const cacheKey = `${options.secure ? 'secure' : 'plain'}:${name}`;
+    let collection = this.collections.get(cacheKey);
+    if (!collection) {
+      collection = new Collection<T>(options.secure ? this.secure : this.plain, name, options);
+      this.collections.set(cacheKey, collection);
+    }
+    return collection;
+  }
+
+  /**
+   * Get the migration registry for plain or secure storage
+   * @param useSecure Whether to migrate secure storage (default: false)
+   */
+  migrations(useSecure: boolean = false): StorageMigrator {
+    const type = useSecure ? 'secure' : 'plain';
+    if (!this.migrators[type]) {
+      this.migrators[type] = new StorageMigrator(() => useSecure ? this.secure : this.plain);
+    }
+    return this.migrators[type]!;
+  }
+
+  /**
+   * Run a group of writes atomically
+   * @param callback Receives the transaction; reads see its own uncommitted writes
+   * @param useSecure Whether to use secure storage (default: false)
+   */
+  async transaction<T>(callback: (tx: StorageTransaction) => T | Promise<T>, useSecure: boolean = false): Promise<T> {
+    return (useSecure ? this.secure : this.plain).transaction(callback);
+  }
+
+  /**
+   * Replay or roll back transactions interrupted in a previous session
+   * Called by R1SDK.initialize()
+   */
+  async recoverTransactions(): Promise<void> {
+    if (!R1Storage.isAvailable()) return;
+
+    await this.plain.recoverTransactions();
+    if (R1Storage.isSecureAvailable()) {
+      await this.secure.recoverTransactions();
+    }
+  }
+
+  /**
+   * Run pending migrations for every store that has migrations registered
+   * Called by R1SDK.initialize()
+   */
+  async runPendingMigrations(): Promise<MigrationResult[]> {
+    const results: MigrationResult[] = [];
+    if (!R1Storage.isAvailable()) return results;
+
+    for (const migrator of [this.migrators.plain, this.migrators.secure]) {
+      if (migrator && migrator.latestVersion > 0) {
+        results.push(await migrator.migrate());
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Open an AES-GCM encrypted store on top of plain storage
+   * Uses a key derived from the password, or a random key kept in secure storage when no password is given
+   * @param options Password and key options
+   */
+  async encrypted(options: { password?: string } & PasswordKeyOptions & SecureKeyOptions = {}): Promise<EncryptedStorage> {
+    if (!R1Storage.isAvailable()) {
+      throw new Error('Plain storage not available. Make sure you are running in R1 environment.');
+    }
+    if (!EncryptedStorage.isSupported()) {
+      throw new Error('WebCrypto not available');
+    }
+
+    const { password, ...keyOptions } = options;
+    if (password !== undefined) {
+      return EncryptedStorage.fromPassword(this.host('plain'), password, keyOptions);
+    }
+    if (!R1Storage.isSecureAvailable()) {
+      throw new Error('Secure storage not available. Pass a password to derive the encryption key instead.');
+    }
+    return EncryptedStorage.fromSecureStorage(this.host('plain'), this.host('secure'), keyOptions);
+  }
+
+  /**
+   * Export plugin data as a versioned bundle with checksums
+   * Includes every key written through the SDK, plus the keys of namespaces and collections
+   * opened in this session and of values with a TTL; pass other older keys in `keys`
+   * @param options Whether to include secure storage, and extra keys
+   */
+  async exportBackup(options: BackupExportOptions = {}): Promise<BackupBundle> {
+    if (!R1Storage.isAvailable()) {
+      throw new Error('Plain storage not available. Make sure you are running in R1 environment.');
+    }
+    if (options.secure && !R1Storage.isSecureAvailable()) {
+      throw new Error('Secure storage not available. Make sure you are running on Android M+ in R1 environment.');
+    }
+
+    for (const name of options.secure ? ['plain', 'secure'] as const : ['plain'] as const) {
+      await this.trackKnownKeys(name);
+    }
+    return new StorageBackup(name => this.host(name)).export(options);
+  }
+
+  /**
+   * Restore a bundle created by exportBackup()
+   * 'merge' keeps keys missing from the bundle; 'replace' removes them.
+   * Namespaces, collections and stores opened before the import should be reopened afterwards
+   * @param bundle Bundle object or its JSON text
+   * @param options Merge or replace, and which stores to restore
+   * @throws BackupError when the bundle is invalid or the restore fails
+   */
+  async importBackup(bundle: BackupBundle | string, options: BackupImportOptions = {}): Promise<BackupImportResult> {
+    const verified = StorageBackup.verify(bundle);
+    const stores = options.stores ?? (Object.keys(verified.stores) as BackupStoreName[]);
+    if (!R1Storage.isAvailable() || (stores.includes('secure') && verified.stores.secure && !R1Storage.isSecureAvailable())) {
+      throw new Error('Storage not available. Make sure you are running in R1 environment.');
+    }
+
+    // 'replace' removes recorded keys missing from the bundle, so older keys must be recorded first
+    if (options.strategy === 'replace') {
+      for (const name of stores.filter(name => verified.stores[name])) {
+        await this.trackKnownKeys(name);
+      }
+    }
+
+    const result = await new StorageBackup(name => this.host(name)).import(verified, options);
+
+    // Cached indexes may no longer match what is stored
+    this.plainNamespaces.clear();
+    this.secureNamespaces.clear();
+    this.collections.clear();
+    this._plain?.reload();
+    this._secure?.reload();
+    return result;
+  }
+
   /**
    * Check if storage is available
    */
@@ -191,4 +858,62 @@ export class R1Storage {
 }
 
 // Export singleton instance
-export const storage = new R1Storage();
\ No newline at end of file
+export const storage = new R1Storage();
+
+/**
+ * Create a reactive state store backed by the shared R1Storage instance
+ * @param initial Initial state
+ * @param options Storage key, storage selection and write debounce
+ */
+export function createStore<T>(initial: T, options: StoreOptions = {}): PersistedStore<T> {
+  return storage.store(initial, options);
+}
+
+export { PersistedStore, StoreSelector } from './store';
+export type { StoreOptions, StoreListener, EqualityFn } from './store';
+export { StorageBackup, TrackedStorage, BackupError, BACKUP_VERSION } from './backup';
+export type {
+  BackupBundle,
+  BackupEntry,
+  BackupExportOptions,
+  BackupImportOptions,
+  BackupImportResult,
+  BackupStoreName,
+  BackupErrorReason
+} from './backup';
+
+export { Collection } from './collection';
+export type {
+  CollectionDocument,
+  Filter,
+  FieldCondition,
+  FindOptions,
+  SortOrder,
+  CollectionOptions,
+  CollectionChange
+} from './collection';
+export { StorageTransaction, StorageTransactionError } from './transaction';
+export type { TransactionOperation, TransactionJournal, TransactionRecovery } from './transaction';
+export { ExpiryIndex } from './expiry';
+export type { SetItemOptions } from './expiry';
+export { DefaultCodec, StorageEncoding, StorageIntegrityError, ValueFraming } from './codec';
+export type { StorageCodec, ValueFramingOptions } from './codec';
+export { EncryptedStorage, DecryptionError } from './encrypted';
+export type {
+  EncryptionKey,
+  EncryptedStorageOptions,
+  PasswordKeyOptions,
+  SecureKeyOptions,
+  DecryptionErrorReason
+} from './encrypted';
+export { StorageMigrator, StorageMigrationError } from './migrations';
+export type {
+  Migration,
+  MigrationContext,
+  MigrationFunction,
+  MigrationChange,
+  MigrationRunOptions,
+  MigrationResult,
+  SchemaVersionRecord,
+  StorageMigratorOptions
+} from './migrations';
@@ -0,0 +1,266 @@
+/**
+ * Versioned storage schemas with migrations
+ * Migrations stage their writes and are committed together with the new schema version
+ */
+
+import type { StorageWrapper } from './index';
+import { StorageTransactionError } from './transaction';
+
+export interface MigrationContext {
+  fromVersion: number;     // Version before this migration
+  toVersion: number;       // Version this migration produces
+  getItem<T = any>(key: string, parseJson?: boolean): Promise<T | null>;
+  setItem(key: string, value: any): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export type MigrationFunction = (context: MigrationContext) => Promise<void> | void;
+
+export interface Migration {
+  version: number;
+  description?: string;
+  migrate: MigrationFunction;
+}
+
+export interface MigrationChange {
+  key: string;
+  type: 'set' | 'remove';
+  version: number;         // Migration that made the change
+  value?: any;
+}
+
+export interface MigrationRunOptions {
+  dryRun?: boolean;        // Run migrations and report changes without writing them (default: false)
+  targetVersion?: number;  // Stop at this version (default: highest registered version)
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];       // Versions whose migrations ran
+  changes: MigrationChange[];
+  dryRun: boolean;
+}
+
+export interface SchemaVersionRecord {
+  version: number;
+  migratedAt: number;
+}
+
+export interface StorageMigratorOptions {
+  versionKey?: string;     // Key holding the applied schema version (default: 'schema_version')
+}
+
+/**
+ * Error raised when a migration fails; staged changes are not applied
+ */
+export class StorageMigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly version: number,
+    public readonly cause?: unknown,
+    public readonly rolledBack: boolean = true
+  ) {
+    super(message);
+    this.name = 'StorageMigrationError';
+  }
+}
+
+/**
+ * Registry and runner of storage migrations
+ */
+export class StorageMigrator {
+  private migrations: Map<number, Migration> = new Map();
+  private runs: Map<string, Promise<MigrationResult>> = new Map();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private storage: () => StorageWrapper, private options: StorageMigratorOptions = {}) {}
+
+  /**
+   * Register the migration that upgrades data to a version
+   * @param version Version produced by the migration (starting at 1)
+   * @param migrate Migration function
+   * @param description Optional description
+   */
+  register(version: number, migrate: MigrationFunction, description?: string): this {
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(`Invalid migration version ${version}`);
+    }
+    if (this.migrations.has(version)) {
+      throw new Error(`Migration for version ${version} is already registered`);
+    }
+
+    this.migrations.set(version, { version, migrate, description });
+    return this;
+  }
+
+  /**
+   * List registered migrations in version order
+   */
+  list(): Migration[] {
+    return [...this.migrations.values()].sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Highest registered version (the declared schema version)
+   */
+  get latestVersion(): number {
+    return Math.max(0, ...this.migrations.keys());
+  }
+
+  /**
+   * Get the applied schema version (0 when nothing has been migrated)
+   */
+  async getVersion(): Promise<number> {
+    const record = await this.storage().getItem<SchemaVersionRecord>(this.versionKey);
+    return record?.version ?? 0;
+  }
+
+  /**
+   * Get versions that would run on the next migration
+   * @param targetVersion Stop at this version (default: highest registered version)
+   */
+  async pending(targetVersion: number = this.latestVersion): Promise<number[]> {
+    const current = await this.getVersion();
+    return this.list()
+      .map(migration => migration.version)
+      .filter(version => version > current && version <= targetVersion);
+  }
+
+  /**
+   * Run pending migrations
+   * All changes are staged and written in one storage transaction together with the new
+   * version; if a migration or a write fails, previously stored values are restored
+   * @param options Dry-run and target version options
+   */
+  async migrate(options: MigrationRunOptions = {}): Promise<MigrationResult> {
+    // Concurrent callers with the same options share one run; runs with other options wait their turn
+    const key = JSON.stringify([options.dryRun ?? false, options.targetVersion ?? this.latestVersion]);
+    let run = this.runs.get(key);
+    if (!run) {
+      run = this.queue.then(() => this.run(options)).finally(() => {
+        this.runs.delete(key);
+      });
+      this.runs.set(key, run);
+      this.queue = run.then(() => undefined, () => undefined);
+    }
+    return run;
+  }
+
+  private async run(options: MigrationRunOptions): Promise<MigrationResult> {
+    const storage = this.storage();
+    const fromVersion = await this.getVersion();
+    const targetVersion = options.targetVersion ?? this.latestVersion;
+    const dryRun = options.dryRun ?? false;
+
+    if (targetVersion < fromVersion) {
+      throw new StorageMigrationError(
+        `Stored schema version ${fromVersion} is newer than target version ${targetVersion}`,
+        fromVersion,
+        undefined,
+        false
+      );
+    }
+
+    const staged: Map<string, { value: any; removed: boolean }> = new Map();
+    const changes: MigrationChange[] = [];
+    const applied: number[] = [];
+    let version = fromVersion;
+
+    for (const migration of this.list()) {
+      if (migration.version <= fromVersion || migration.version > targetVersion) continue;
+
+      const context: MigrationContext = {
+        fromVersion: version,
+        toVersion: migration.version,
+        getItem: async <T = any>(key: string, parseJson: boolean = true): Promise<T | null> => {
+          const entry = staged.get(key);
+          if (entry) return entry.removed ? null : this.readStaged(entry.value, parseJson);
+          return storage.getItem<T>(key, parseJson);
+        },
+        setItem: async (key: string, value: any) => {
+          this.assertWritable(key);
+          staged.set(key, { value: this.clone(value), removed: false });
+          changes.push({ key, type: 'set', version: migration.version, value });
+        },
+        removeItem: async (key: string) => {
+          this.assertWritable(key);
+          staged.set(key, { value: undefined, removed: true });
+          changes.push({ key, type: 'remove', version: migration.version });
+        }
+      };
+
+      try {
+        await migration.migrate(context);
+      } catch (error) {
+        throw new StorageMigrationError(
+          `Migration to version ${migration.version} failed: ${(error as Error)?.message ?? error}`,
+          migration.version,
+          error
+        );
+      }
+
+      applied.push(migration.version);
+      version = migration.version;
+    }
+
+    if (!dryRun && applied.length > 0) {
+      await this.commit(storage, staged, version);
+    }
+
+    return { fromVersion, toVersion: version, applied, changes, dryRun };
+  }
+
+  private async commit(
+    storage: StorageWrapper,
+    staged: Map<string, { value: any; removed: boolean }>,
+    version: number
+  ): Promise<void> {
+    try {
+      // The transaction journal restores chunked values and TTLs, also after an interrupted commit
+      await storage.transaction(async tx => {
+        for (const [key, entry] of staged) {
+          if (entry.removed) {
+            await tx.removeItem(key);
+          } else {
+            await tx.setItem(key, entry.value);
+          }
+        }
+        const record: SchemaVersionRecord = { version, migratedAt: Date.now() };
+        await tx.setItem(this.versionKey, record);
+      });
+    } catch (error) {
+      throw new StorageMigrationError(
+        `Failed to write migrated data: ${(error as Error)?.message ?? error}`,
+        version,
+        error,
+        error instanceof StorageTransactionError ? error.rolledBack : true
+      );
+    }
+  }
+
+  private assertWritable(key: string): void {
+    if (key === this.versionKey) {
+      throw new Error(`Migrations cannot write the schema version key "${key}"`);
+    }
+  }
+
+  private clone<T>(value: T): T {
+    return value === undefined ? value : structuredClone(value);
+  }
+
+  /**
+   * Read a staged value the way storage returns it once committed
+   * Unparsed reads get JSON text for values that are stored as JSON
+   */
+  private readStaged(value: any, parseJson: boolean): any {
+    const binary = (typeof Blob !== 'undefined' && value instanceof Blob) ||
+      value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+    if (parseJson || binary || typeof value === 'string') return this.clone(value);
+    return JSON.stringify(value);
+  }
+
+  private get versionKey(): string {
+    return this.options.versionKey ?? 'schema_version';
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Reactive state stores persisted to R1Storage
+ * State lives in memory and is written behind after changes settle, so frequent
+ * updates don't each cost a storage round trip
+ */
+
+import type { Subscribable } from '../types';
+import type { StorageWrapper } from './index';
+
+export interface StoreOptions {
+  key?: string;            // Storage key to hydrate from and persist to (default: memory only)
+  secure?: boolean;        // Use secure storage (default: false)
+  debounce?: number;       // Milliseconds to wait after the last change before writing (default: 300)
+  merge?: boolean;         // Merge stored objects over the initial state, so new fields get defaults (default: true)
+}
+
+export type StoreListener<T> = (state: T, previous: T) => void;
+
+export type EqualityFn<R> = (a: R, b: R) => boolean;
+
+/**
+ * Value derived from a store
+ * Recomputes only when one of its input selectors returns a different value
+ */
+export class StoreSelector<T, R> implements Subscribable<R> {
+  private inputValues?: unknown[];
+  private value!: R;
+  private listeners: Set<(value: R) => void> = new Set();
+  private unsubscribe?: () => void;
+
+  constructor(
+    private store: PersistedStore<T>,
+    private inputs: Array<(state: T) => unknown>,
+    private combiner: (...values: any[]) => R,
+    private equals: EqualityFn<R> = Object.is
+  ) {}
+
+  /**
+   * Current derived value
+   */
+  get(): R {
+    const state = this.store.get();
+    const values = this.inputs.map(input => input(state));
+    if (!this.inputValues || values.some((value, i) => !Object.is(value, this.inputValues![i]))) {
+      this.inputValues = values;
+      this.value = this.combiner(...values);
+    }
+    return this.value;
+  }
+
+  /**
+   * Listen for changes to the derived value
+   * @param listener Called with the new value
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (value: R) => void): () => void {
+    if (this.listeners.size === 0) {
+      let current = this.get();
+      this.unsubscribe = this.store.subscribe(() => {
+        const next = this.get();
+        if (this.equals(current, next)) return;
+        current = next;
+        this.listeners.forEach(callback => {
+          try {
+            callback(next);
+          } catch (error) {
+            console.error('Error in store selector listener:', error);
+          }
+        });
+      });
+    }
+
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.unsubscribe?.();
+        this.unsubscribe = undefined;
+      }
+    };
+  }
+}
+
+/**
+ * In-memory state with subscriptions and debounced write-behind persistence
+ */
+export class PersistedStore<T> implements Subscribable<T> {
+  /** Resolves once the stored state has been loaded (immediately for memory-only stores) */
+  readonly ready: Promise<void>;
+
+  private state: T;
+  private listeners: Set<StoreListener<T>> = new Set();
+  private changed = false;
+  private dirty = false;
+  private timer?: ReturnType<typeof setTimeout>;
+  private write: Promise<void> = Promise.resolve();
+  private onPageHide = () => {
+    this.flush().catch(error => console.warn('Failed to persist store:', error));
+  };
+
+  constructor(
+    private storage: () => StorageWrapper,
+    initial: T,
+    private options: StoreOptions = {}
+  ) {
+    this.state = initial;
+    this.ready = this.hydrate(initial);
+
+    if (options.key && typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.onPageHide);
+    }
+  }
+
+  /**
+   * Current state
+   */
+  get(): T {
+    return this.state;
+  }
+
+  /**
+   * Replace the state
+   * Listeners are only notified when the new state is a different value
+   * @param state New state
+   */
+  set(state: T): void {
+    if (Object.is(state, this.state)) return;
+
+    const previous = this.state;
+    this.state = state;
+    this.changed = true;
+    this.notify(previous);
+    this.schedule();
+  }
+
+  /**
+   * Compute the next state from the current one
+   * Return a new object rather than mutating the current state, so selectors see the change
+   * @param updater Function returning the new state
+   */
+  update(updater: (state: T) => T): void {
+    this.set(updater(this.state));
+  }
+
+  /**
+   * Listen for state changes
+   * @param listener Called with the new and previous state
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: StoreListener<T>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Derive a value from the state
+   * @param selector Function reading from the state
+   * @param equals Comparison deciding whether subscribers are notified (default: Object.is)
+   */
+  select<R>(selector: (state: T) => R, equals?: EqualityFn<R>): StoreSelector<T, R>;
+  /**
+   * Derive a value from several input selectors
+   * The combiner only runs when an input returns a different value
+   * @param inputs Functions reading from the state
+   * @param combiner Function computing the derived value from the inputs
+   * @param equals Comparison deciding whether subscribers are notified (default: Object.is)
+   */
+  select<I extends unknown[], R>(
+    inputs: { [K in keyof I]: (state: T) => I[K] },
+    combiner: (...values: I) => R,
+    equals?: EqualityFn<R>
+  ): StoreSelector<T, R>;
+  select<R>(
+    selectorOrInputs: ((state: T) => R) | Array<(state: T) => unknown>,
+    combinerOrEquals?: ((...values: any[]) => R) | EqualityFn<R>,
+    equals?: EqualityFn<R>
+  ): StoreSelector<T, R> {
+    if (Array.isArray(selectorOrInputs)) {
+      return new StoreSelector(this, selectorOrInputs, combinerOrEquals as (...values: any[]) => R, equals);
+    }
+    return new StoreSelector(this, [selectorOrInputs], value => value as R, combinerOrEquals as EqualityFn<R> | undefined);
+  }
+
+  /**
+   * Write pending changes now instead of waiting for the debounce
+   */
+  flush(): Promise<void> {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const next = this.write.then(async () => {
+      if (!this.dirty || !this.options.key) return;
+      this.dirty = false;
+      try {
+        await this.storage().setItem(this.options.key, this.state);
+      } catch (error) {
+        this.dirty = true;
+        throw error;
+      }
+    });
+    this.write = next.catch(() => {});
+    return next;
+  }
+
+  /**
+   * Write pending changes and stop listening for page hide
+   * Subscribers are removed; the state can still be read
+   */
+  async dispose(): Promise<void> {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.onPageHide);
+    }
+    this.listeners.clear();
+    await this.flush();
+  }
+
+  private async hydrate(initial: T): Promise<void> {
+    if (!this.options.key) return;
+
+    let stored: T | null;
+    try {
+      stored = await this.storage().getItem<T>(this.options.key);
+    } catch (error) {
+      console.warn('Failed to load store state:', error);
+      return;
+    }
+
+    // Changes made before hydration finished win over the stored state
+    if (stored === null || this.changed) return;
+
+    const previous = this.state;
+    this.state = this.options.merge !== false && this.isPlainObject(initial) && this.isPlainObject(stored)
+      ? { ...initial, ...stored }
+      : stored;
+    this.notify(previous);
+  }
+
+  private schedule(): void {
+    if (!this.options.key) return;
+
+    this.dirty = true;
+    if (this.timer !== undefined) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.flush().catch(error => console.warn('Failed to persist store:', error));
+    }, this.options.debounce ?? 300);
+  }
+
+  private notify(previous: T): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.state, previous);
+      } catch (error) {
+        console.error('Error in store listener:', error);
+      }
+    });
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
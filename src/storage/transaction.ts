@@ -0,0 +1,97 @@
+/**
+ * Storage transactions
+ * Writes are staged in memory and committed through a journal key, so an interrupted
+ * commit can be replayed or rolled back the next time the plugin starts
+ */
+
+import type { StorageCodec } from './codec';
+import { ValueFraming } from './codec';
+import type { SetItemOptions } from './expiry';
+
+export interface TransactionOperation {
+  key: string;
+  data?: string;           // Encoded value (absent for removals)
+  expiresAt?: number;      // Expiry time for values written with a TTL
+}
+
+export interface TransactionJournal {
+  id: string;
+  startedAt: number;
+  operations: TransactionOperation[];
+  previous: Record<string, string | null>;  // Encoded values before the commit, for rollback
+}
+
+export type TransactionRecovery = 'none' | 'replayed' | 'rolled-back';
+
+/**
+ * Error raised when a transaction cannot be committed
+ */
+export class StorageTransactionError extends Error {
+  constructor(message: string, public readonly cause?: unknown, public readonly rolledBack: boolean = true) {
+    super(message);
+    this.name = 'StorageTransactionError';
+  }
+}
+
+/**
+ * Staged view of storage passed to transaction callbacks
+ * Reads see the transaction's own writes; nothing is written until the callback resolves
+ */
+export class StorageTransaction {
+  private staged: Map<string, TransactionOperation> = new Map();
+
+  constructor(
+    private read: <T>(key: string, parseJson: boolean) => Promise<T | null>,
+    private codec: StorageCodec
+  ) {}
+
+  /**
+   * Read a value, including uncommitted writes from this transaction
+   * @param key Storage key
+   * @param parseJson Whether to parse as JSON (default: true)
+   */
+  async getItem<T = any>(key: string, parseJson: boolean = true): Promise<T | null> {
+    const operation = this.staged.get(key);
+    if (!operation) return this.read<T>(key, parseJson);
+    if (operation.data === undefined) return null;
+    if (operation.expiresAt !== undefined && operation.expiresAt <= Date.now()) return null;
+
+    const frame = ValueFraming.parseFrame(operation.data);
+    try {
+      return await this.codec.decode<T>(frame?.t === 'ttl' ? frame.data : operation.data, parseJson);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Stage a write
+   * @param key Storage key
+   * @param value Data to store
+   * @param options Time to live
+   */
+  async setItem(key: string, value: any, options: SetItemOptions = {}): Promise<void> {
+    const encoded = await this.codec.encode(value);
+    if (options.ttl !== undefined) {
+      const expiresAt = Date.now() + options.ttl;
+      this.staged.set(key, { key, data: ValueFraming.withExpiry(encoded, expiresAt), expiresAt });
+    } else {
+      this.staged.set(key, { key, data: encoded });
+    }
+  }
+
+  /**
+   * Stage a removal
+   * @param key Storage key
+   */
+  async removeItem(key: string): Promise<void> {
+    this.staged.set(key, { key });
+  }
+
+  /**
+   * Staged operations in the order their keys were first written
+   */
+  getOperations(): TransactionOperation[] {
+    return [...this.staged.values()];
+  }
+}
@@ -55,6 +55,12 @@ export interface R1Dimensions {
   height: 282;
 }
 
+// State types
+export interface Subscribable<T> {
+  get(): T;
+  subscribe(listener: (value: T) => void): () => void;
+}
+
 // Event types
 export type HardwareEventType = 
   | 'sideClick'
@@ -3,7 +3,7 @@
  * Provides tools for 240x282px display, hardware-accelerated CSS, and DOM optimization
  */
 
-import type { R1Dimensions } from '../types';
+import type { R1Dimensions, Subscribable } from '../types';
 
 export const R1_DIMENSIONS: R1Dimensions = {
   width: 240,
@@ -307,6 +307,7 @@ export class PerformanceUtils {
 export abstract class R1Component {
   protected element: HTMLElement;
   protected mounted = false;
+  private bindings: Array<{ connect: () => () => void; disconnect?: () => void }> = [];
 
   constructor(tagName: string = 'div', className?: string) {
     this.element = document.createElement(tagName);
@@ -328,6 +329,7 @@ export abstract class R1Component {
     container.appendChild(this.element);
     this.mounted = true;
     this.onMount();
+    this.bindings.forEach(binding => binding.disconnect = binding.connect());
   }
 
   /**
@@ -340,10 +342,34 @@ export abstract class R1Component {
       this.element.parentNode.removeChild(this.element);
     }
     
+    this.bindings.forEach(binding => {
+      binding.disconnect?.();
+      binding.disconnect = undefined;
+    });
     this.mounted = false;
     this.onUnmount();
   }
 
+  /**
+   * Re-render whenever a store or selector changes
+   * The render function runs with the current value on mount and after each change
+   * until the component is unmounted; bindings reconnect when it is mounted again
+   * @param source Store or selector to follow
+   * @param render Function updating the component from the value
+   */
+  protected bind<T>(source: Subscribable<T>, render: (value: T) => void): void {
+    const binding: { connect: () => () => void; disconnect?: () => void } = {
+      connect: () => {
+        render(source.get());
+        return source.subscribe(value => render(value));
+      }
+    };
+    this.bindings.push(binding);
+    if (this.mounted) {
+      binding.disconnect = binding.connect();
+    }
+  }
+
   /**
    * Get component element
    */
@@ -770,4 +796,8 @@ export class R1UI {
 }
 
 // Export singleton instance
-export const ui = new R1UI();
\ No newline at end of file
+export const ui = new R1UI();
+
+// Re-export search result list
+export { SearchResultList } from './search-results';
+export type { SearchResultListOptions } from './search-results';
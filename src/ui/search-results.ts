@@ -0,0 +1,206 @@
+/**
+ * Compact search result list for the 240x282px display
+ * Renders normalized SERP results with an optional answer box and a selectable row
+ */
+
+import { R1Component, DOMUtils, ui } from './index';
+import type { SearchResponse, SearchResult } from '../llm/search';
+
+export interface SearchResultListOptions {
+  maxResults?: number;      // Rows rendered (default: 5)
+  showSnippets?: boolean;   // Show a two-line snippet under each title (default: true)
+  showAnswerBox?: boolean;  // Show the answer box or knowledge panel above the list (default: true)
+  onSelect?: (result: SearchResult) => void;  // Called by activate() for the selected row
+}
+
+/**
+ * Selectable list of search results
+ */
+export class SearchResultList extends R1Component {
+  private response?: SearchResponse;
+  private rows: HTMLElement[] = [];
+  private selectedIndex = 0;
+
+  constructor(private options: SearchResultListOptions = {}) {
+    super('div', 'r1-search-results');
+    Object.assign(this.element.style, {
+      width: '100%',
+      height: '100%',
+      overflowY: 'auto',
+      boxSizing: 'border-box',
+      padding: ui.getSpacing().sm
+    });
+  }
+
+  /**
+   * Render a search response
+   * @param response Normalized search response
+   */
+  setResults(response: SearchResponse): void {
+    this.response = response;
+    this.selectedIndex = 0;
+    this.render();
+  }
+
+  /**
+   * Select a row
+   * @param index Row index (clamped to the rendered rows)
+   */
+  select(index: number): void {
+    if (this.rows.length === 0) return;
+
+    this.selectedIndex = Math.max(0, Math.min(index, this.rows.length - 1));
+    this.rows.forEach((row, i) => this.applyRowState(row, i === this.selectedIndex));
+    this.rows[this.selectedIndex].scrollIntoView?.({ block: 'nearest' });
+  }
+
+  /**
+   * Move the selection, e.g. from scroll wheel events
+   * @param delta Rows to move (negative = up)
+   */
+  moveSelection(delta: number): void {
+    this.select(this.selectedIndex + delta);
+  }
+
+  /**
+   * Get the selected result
+   */
+  getSelected(): SearchResult | null {
+    return this.getVisibleResults()[this.selectedIndex] ?? null;
+  }
+
+  /**
+   * Invoke onSelect for the selected result, e.g. from a side button click
+   */
+  activate(): void {
+    const selected = this.getSelected();
+    if (selected) {
+      this.options.onSelect?.(selected);
+    }
+  }
+
+  protected onMount(): void {
+    this.render();
+  }
+
+  protected onUnmount(): void {
+    this.rows = [];
+  }
+
+  private getVisibleResults(): SearchResult[] {
+    return this.response?.results.slice(0, this.options.maxResults ?? 5) ?? [];
+  }
+
+  private render(): void {
+    this.element.textContent = '';
+    this.rows = [];
+    if (!this.response) return;
+
+    const fonts = ui.getFontSizes();
+    const spacing = ui.getSpacing();
+    const colors = ui.getColors();
+
+    DOMUtils.batchOperations(fragment => {
+      const summary = this.createSummary();
+      if (summary) fragment.appendChild(summary);
+
+      const results = this.getVisibleResults();
+      if (results.length === 0 && !summary) {
+        const empty = DOMUtils.createElement('div', { class: 'r1-search-empty' }, 'No results');
+        ui.createText(empty, { size: 'small', color: colors.text.secondary });
+        fragment.appendChild(empty);
+      }
+
+      results.forEach((result, index) => {
+        const row = DOMUtils.createElement('div', { class: 'r1-search-row' });
+        Object.assign(row.style, {
+          padding: `${spacing.xs} ${spacing.sm}`,
+          marginBottom: spacing.xs,
+          borderLeft: '2px solid transparent'
+        });
+
+        const title = DOMUtils.createElement('div', {}, result.title);
+        Object.assign(title.style, {
+          fontSize: fonts.small,
+          fontWeight: 'bold',
+          color: colors.text.primary,
+          whiteSpace: 'nowrap',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis'
+        });
+        row.appendChild(title);
+
+        if (this.options.showSnippets !== false && result.snippet) {
+          const snippet = DOMUtils.createElement('div', {}, result.snippet);
+          Object.assign(snippet.style, {
+            fontSize: fonts.tiny,
+            color: colors.text.secondary,
+            display: '-webkit-box',
+            webkitLineClamp: '2',
+            webkitBoxOrient: 'vertical',
+            overflow: 'hidden'
+          });
+          row.appendChild(snippet);
+        }
+
+        const host = DOMUtils.createElement('div', {}, this.getHost(result.url));
+        Object.assign(host.style, {
+          fontSize: fonts.tiny,
+          color: colors.primary,
+          whiteSpace: 'nowrap',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis'
+        });
+        row.appendChild(host);
+
+        this.applyRowState(row, index === this.selectedIndex);
+        this.rows.push(row);
+        fragment.appendChild(row);
+      });
+    }, this.element);
+  }
+
+  private createSummary(): HTMLElement | null {
+    if (this.options.showAnswerBox === false || !this.response) return null;
+
+    const { answerBox, knowledgePanel } = this.response;
+    const heading = answerBox?.answer ?? knowledgePanel?.title;
+    const detail = answerBox?.snippet ?? knowledgePanel?.description;
+    if (!heading && !detail) return null;
+
+    const colors = ui.getColors();
+    const box = DOMUtils.createElement('div', { class: 'r1-search-answer' });
+    Object.assign(box.style, {
+      padding: ui.getSpacing().sm,
+      marginBottom: ui.getSpacing().sm,
+      borderRadius: ui.getSpacing().sm,
+      background: '#1A1A1A'
+    });
+
+    if (heading) {
+      const text = DOMUtils.createElement('div', {}, heading);
+      ui.createText(text, { size: 'body', align: 'left', weight: 'bold', color: colors.primary });
+      box.appendChild(text);
+    }
+    if (detail) {
+      const text = DOMUtils.createElement('div', {}, detail);
+      ui.createText(text, { size: 'tiny', align: 'left', color: colors.text.secondary });
+      box.appendChild(text);
+    }
+
+    return box;
+  }
+
+  private applyRowState(row: HTMLElement, selected: boolean): void {
+    row.style.borderLeftColor = selected ? ui.getColors().primary : 'transparent';
+    row.style.background = selected ? '#1A1A1A' : 'transparent';
+  }
+
+  private getHost(url: string): string {
+    try {
+      return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+      return url;
+    }
+  }
+}
@@ -54,8 +54,884 @@ console.log(`   - Version: ${packageJson.version}`);
 console.log(`   - Main entry: ${packageJson.main}`);
 console.log(`   - Types entry: ${packageJson.types}`);
 
-console.log('\n🎉 All tests passed! R1 SDK is ready for use.');
-console.log('\n📖 Quick start:');
-console.log('   npm install r1-create');
-console.log('   import { r1 } from "r1-create";');
-console.log('   await r1.initialize();');
\ No newline at end of file
+// Behavior tests
+const assert = require('assert');
+const behaviorTests = [];
+const test = (name, fn) => behaviorTests.push({ name, fn });
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+// Memory storage whose writes can be made to fail, to interrupt commits part way
+class FlakyStorage extends sdk.MemoryStorage {
+  constructor() {
+    super();
+    this.failWhen = null;
+  }
+
+  async setItem(key, value) {
+    if (this.failWhen && this.failWhen(key, 'set')) throw new Error(`Write to ${key} failed`);
+    return super.setItem(key, value);
+  }
+
+  async removeItem(key) {
+    if (this.failWhen && this.failWhen(key, 'remove')) throw new Error(`Removal of ${key} failed`);
+    return super.removeItem(key);
+  }
+}
+
+// Runs a step whose expected warnings would clutter the output
+const quietly = async fn => {
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    return await fn();
+  } finally {
+    console.warn = warn;
+  }
+};
+
+// Fails the first write of a key only, so the rollback that follows can succeed
+const failFirstWrite = target => {
+  let failed = false;
+  return (key, operation) => !failed && key === target && operation === 'set' && (failed = true);
+};
+
+const storageOptions = { chunkSize: 16, sweepInterval: 0 };
+
+// Runs a test against a simulated host installed on a fresh window
+const withSimulator = async (options, fn) => {
+  globalThis.window = new EventTarget();
+  const simulator = sdk.installSimulator({ window: globalThis.window, ...options });
+  try {
+    return await fn(simulator);
+  } finally {
+    simulator.uninstall();
+    delete globalThis.window;
+  }
+};
+
+test('Late response to a timed-out request is dropped', async () => {
+  const { PendingRequests } = require('./dist/llm');
+  const pending = new PendingRequests();
+  const a = pending.wait('r1req_a', { timeout: 10 });
+  await assert.rejects(a, { code: 'timeout' });
+
+  const b = pending.wait('r1req_b', { timeout: 1000 });
+  assert.strictEqual(await quietly(() => pending.resolve({ message: 'late answer to A', pluginId: 'r1req_a' })), false);
+  assert.strictEqual(pending.resolve({ message: 'answer to B', pluginId: 'r1req_b' }), true);
+  assert.strictEqual((await b).message, 'answer to B');
+
+  // Responses without an id still go to the oldest waiting request
+  const c = pending.wait('r1req_c', { timeout: 1000 });
+  pending.wait('r1req_d', { timeout: 1000 }).catch(() => {});
+  assert.strictEqual(pending.resolve({ message: 'untagged', pluginId: '' }), true);
+  assert.strictEqual((await c).message, 'untagged');
+  pending.rejectAll(new Error('done'));
+});
+
+test('Simulator reports responder failures', async () => {
+  const errors = [];
+  const simulator = new sdk.R1Simulator({
+    window: new EventTarget(),
+    responder: () => { throw new Error('responder failed'); },
+    onError: (error, raw) => errors.push({ error, raw })
+  }).install();
+  try {
+    globalThis.PluginMessageHandler.postMessage(JSON.stringify({ message: 'hi' }));
+    globalThis.PluginMessageHandler.postMessage('not json');
+    await sleep(0);
+    assert.deepStrictEqual(errors.map(({ raw }) => raw), [JSON.stringify({ message: 'hi' }), 'not json']);
+    assert.strictEqual(errors[0].error.message, 'responder failed');
+  } finally {
+    simulator.uninstall();
+  }
+});
+
+test('Recorder captures a running accelerometer and detaches on stop', () => withSimulator({}, async simulator => {
+  const hub = new sdk.AccelerometerAPI();
+  const received = [];
+  const unsubscribe = hub.subscribe(data => received.push(data));
+  try {
+    const recorder = new sdk.BridgeRecorder(globalThis.window, hub);
+    recorder.start({ build: 1 });
+    simulator.accelerometer.emit({ x: 0.1, y: 0.2, z: 0.9 });
+    const trace = recorder.stop();
+    assert.deepStrictEqual(trace.events.map(event => event.sample), [{ x: 0.1, y: 0.2, z: 0.9 }]);
+
+    simulator.accelerometer.emit({ x: 0, y: 0, z: 1 });
+    assert.strictEqual(recorder.getTrace().events.length, 1);
+    assert.strictEqual(received.length, 2);
+  } finally {
+    unsubscribe();
+  }
+}));
+
+test('Failed migration commit restores chunked values and their TTL', async () => {
+  const memory = new FlakyStorage();
+  const storage = new sdk.StorageWrapper(memory, storageOptions);
+  await storage.setItem('notes', { text: 'a value long enough to be chunked' }, { ttl: 60000 });
+
+  const migrator = new sdk.StorageMigrator(() => storage)
+    .register(1, async ({ setItem }) => setItem('notes', { text: 'migrated' }));
+  memory.failWhen = (key, operation) => key === 'schema_version' && operation === 'set';
+  await assert.rejects(migrator.migrate(), error => error.name === 'StorageMigrationError' && error.rolledBack);
+  memory.failWhen = null;
+
+  assert.deepStrictEqual(await storage.getItem('notes'), { text: 'a value long enough to be chunked' });
+  assert.ok('notes' in JSON.parse(await memory.getItem('ttl_index')));
+  assert.strictEqual(await migrator.getVersion(), 0);
+});
+
+test('Interrupted migration commit is replayed on the next start', async () => {
+  const memory = new FlakyStorage();
+  const storage = new sdk.StorageWrapper(memory, storageOptions);
+  await storage.setItem('a', 1);
+  await storage.setItem('b', 2);
+
+  const migrator = new sdk.StorageMigrator(() => storage).register(1, async ({ setItem }) => {
+    await setItem('a', 10);
+    await setItem('b', 20);
+  });
+  // The webview goes away after the first value is written: nothing else reaches storage
+  let writes = 0;
+  memory.failWhen = key => key !== 'tx_journal' && ++writes > 1;
+  await assert.rejects(migrator.migrate(), error => error.rolledBack === false);
+  memory.failWhen = null;
+
+  const restarted = new sdk.StorageWrapper(memory, storageOptions);
+  assert.strictEqual(await restarted.recoverTransactions(), 'replayed');
+  assert.strictEqual(await restarted.getItem('a'), 10);
+  assert.strictEqual(await restarted.getItem('b'), 20);
+  assert.strictEqual(await new sdk.StorageMigrator(() => restarted).getVersion(), 1);
+});
+
+test('Concurrent migrations only share runs with the same options', async () => {
+  const storage = new sdk.StorageWrapper(new sdk.MemoryStorage(), storageOptions);
+  let runs = 0;
+  const migrator = new sdk.StorageMigrator(() => storage).register(1, async ({ setItem }) => {
+    runs++;
+    await setItem('migrated', true);
+  });
+
+  const [dry, first, second] = await Promise.all([
+    migrator.migrate({ dryRun: true }),
+    migrator.migrate(),
+    migrator.migrate()
+  ]);
+  assert.strictEqual(dry.dryRun, true);
+  assert.strictEqual(first.dryRun, false);
+  assert.strictEqual(first, second);
+  assert.strictEqual(runs, 2);
+  assert.strictEqual(await migrator.getVersion(), 1);
+  assert.strictEqual(await storage.getItem('migrated'), true);
+});
+
+test('Interrupted password rotation keeps every value recoverable', async () => {
+  const memory = new FlakyStorage();
+  const options = { iterations: 1000 };
+  const vault = await sdk.EncryptedStorage.fromPassword(memory, 'old-pin', options);
+  await vault.setItem('a', { n: 1 });
+  await vault.setItem('b', { n: 2 });
+  await vault.setItem('c', { n: 3 });
+
+  // Storage fails after the first value is rewritten
+  let rewrites = 0;
+  memory.failWhen = key => ['a', 'b', 'c'].includes(key) && ++rewrites > 1;
+  await assert.rejects(vault.rotateKey('new-pin'));
+  memory.failWhen = null;
+
+  const reopened = await sdk.EncryptedStorage.fromPassword(memory, 'old-pin', options);
+  assert.strictEqual(await reopened.rotateKey('new-pin'), 3);
+
+  const rotated = await sdk.EncryptedStorage.fromPassword(memory, 'new-pin', options);
+  assert.deepStrictEqual(
+    await Promise.all(['a', 'b', 'c'].map(key => rotated.getItem(key))),
+    [{ n: 1 }, { n: 2 }, { n: 3 }]
+  );
+  await assert.rejects(sdk.EncryptedStorage.fromPassword(memory, 'old-pin', options), { reason: 'wrong-password' });
+});
+
+test('Namespace index drops expired and swept keys', async () => {
+  const storage = new sdk.StorageWrapper(new sdk.MemoryStorage(), storageOptions);
+  const cache = new sdk.NamespacedStorage(storage, 'cache');
+  await cache.setItem('kept', 1);
+  await cache.setItem('expiring', 2, { ttl: 5 });
+  await cache.setItem('swept', 3, { ttl: 5 });
+  await sleep(10);
+
+  assert.strictEqual(await cache.has('expiring'), false);
+  assert.strictEqual(await storage.sweepExpired(), 2);
+  assert.deepStrictEqual(await cache.keys(), ['kept']);
+  assert.deepStrictEqual(await storage.getItem('cache:__keys'), ['kept']);
+  assert.deepStrictEqual(await cache.entries(), [['kept', 1]]);
+});
+
+test('Transactions write nothing on error and roll back failed commits', async () => {
+  const memory = new FlakyStorage();
+  const storage = new sdk.StorageWrapper(memory, storageOptions);
+  await storage.setItem('balance', 100);
+  await storage.setItem('history', ['opened']);
+
+  await assert.rejects(storage.transaction(async tx => {
+    await tx.setItem('balance', 50);
+    throw new Error('cancelled');
+  }), /cancelled/);
+  assert.strictEqual(await storage.getItem('balance'), 100);
+
+  memory.failWhen = failFirstWrite('history');
+  await assert.rejects(storage.transaction(async tx => {
+    await tx.setItem('balance', 50);
+    await tx.setItem('history', ['opened', 'withdrew 50']);
+  }), error => error.name === 'StorageTransactionError' && error.rolledBack);
+  memory.failWhen = null;
+
+  assert.strictEqual(await storage.getItem('balance'), 100);
+  assert.deepStrictEqual(await storage.getItem('history'), ['opened']);
+  assert.strictEqual(await memory.getItem('tx_journal'), null);
+});
+
+test('Interrupted transaction is rolled back when its replay fails', async () => {
+  const memory = new FlakyStorage();
+  const storage = new sdk.StorageWrapper(memory, storageOptions);
+  await storage.setItem('a', 'first value, long enough for chunks');
+  await storage.setItem('b', 1);
+
+  // Only the journal and the first write reach storage before the webview goes away
+  let writes = 0;
+  memory.failWhen = key => key !== 'tx_journal' && ++writes > 1;
+  await assert.rejects(storage.transaction(async tx => {
+    await tx.setItem('a', 'second value, also long enough for chunks');
+    await tx.setItem('b', 2);
+  }));
+
+  // On the next start the value for b can no longer be written, so the replay is abandoned
+  memory.failWhen = failFirstWrite('b');
+  const restarted = new sdk.StorageWrapper(memory, storageOptions);
+  assert.strictEqual(await quietly(() => restarted.recoverTransactions()), 'rolled-back');
+  memory.failWhen = null;
+
+  assert.strictEqual(await restarted.getItem('a', false), 'first value, long enough for chunks');
+  assert.strictEqual(await restarted.getItem('b'), 1);
+  assert.strictEqual(await memory.getItem('tx_journal'), null);
+});
+
+test('Concurrent collection writes are all kept', async () => {
+  const memory = new FlakyStorage();
+  const storage = new sdk.StorageWrapper(memory, storageOptions);
+  const tasks = new sdk.Collection(storage, 'tasks', { indexes: ['done'] });
+
+  await Promise.all(Array.from({ length: 10 }, (_, i) => tasks.insert({ id: `t${i}`, done: i % 2 === 0 })));
+  await Promise.all([tasks.update('t1', { done: true }), tasks.remove('t2'), tasks.insert({ id: 't10', done: false })]);
+
+  const reopened = new sdk.Collection(storage, 'tasks', { indexes: ['done'] });
+  assert.strictEqual(await reopened.count(), 10);
+  assert.deepStrictEqual((await reopened.find({ done: false })).map(task => task.id).sort(), ['t10', 't3', 't5', 't7', 't9']);
+
+  // Updates don't change membership, so the id list is left alone
+  let idWrites = 0;
+  memory.failWhen = (key, operation) => key === 'col:tasks:ids' && operation === 'set' && ++idWrites < 0;
+  await reopened.update('t3', { done: true });
+  memory.failWhen = null;
+  assert.strictEqual(idWrites, 0);
+});
+
+test('Invalid JSON replies are retried past the response cache', () => {
+  let replies = 0;
+  const responder = () => ++replies === 1 ? 'Sure! I feel great.' : '{"mood": "happy"}';
+  return withSimulator({ responder }, async simulator => {
+    const messaging = new sdk.R1Messaging();
+    await messaging.enableCache({ persist: false });
+    const schema = { type: 'object', properties: { mood: { type: 'string' } } };
+
+    assert.deepStrictEqual(await messaging.askLLMJSON('How are you?', { schema }), { mood: 'happy' });
+    assert.strictEqual(simulator.sentMessages.length, 2);
+    assert.match(simulator.sentMessages[1].message, /previous reply was not valid/);
+
+    // The invalid first reply was not kept, so the same question is asked again, then cached
+    assert.deepStrictEqual(await messaging.askLLMJSON('How are you?', { schema }), { mood: 'happy' });
+    assert.deepStrictEqual(await messaging.askLLMJSON('How are you?', { schema }), { mood: 'happy' });
+    assert.strictEqual(simulator.sentMessages.length, 3);
+  });
+});
+
+test('Concurrent conversation saves keep every session in the index', () => withSimulator({}, async () => {
+  const conversations = new sdk.ConversationManager(null, new sdk.R1Storage());
+  const created = await Promise.all(Array.from({ length: 5 }, (_, i) => conversations.create({ title: `Chat ${i}` })));
+  assert.deepStrictEqual((await conversations.list()).map(summary => summary.id).sort(), created.map(chat => chat.id).sort());
+
+  await Promise.all([conversations.delete(created[0].id), conversations.delete(created[1].id), conversations.create()]);
+  assert.strictEqual((await conversations.list()).length, 4);
+}));
+
+test('Tool calls are parsed only for registered tools and dispatched with validation', async () => {
+  const tools = new sdk.ToolRegistry();
+  tools.register({
+    name: 'add',
+    description: 'Add two numbers',
+    parameters: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } } },
+    handler: ({ a, b }) => a + b
+  });
+  tools.register({ name: 'fail', description: 'Always fails', parameters: { type: 'object', properties: {} }, handler: () => { throw new Error('broken'); } });
+
+  const call = tools.parseToolCall({ message: 'Calling: {"tool": "add", "arguments": {"a": 2, "b": 3}}' });
+  assert.deepStrictEqual(call, { tool: 'add', arguments: { a: 2, b: 3 } });
+  assert.strictEqual(tools.parseToolCall({ message: '{"tool": "hammer", "uses": 3}' }), null);
+  assert.strictEqual(tools.parseToolCall({ message: 'Five.' }), null);
+
+  assert.strictEqual((await tools.execute(call)).result, 5);
+  assert.match((await tools.execute({ tool: 'add', arguments: { a: 'two' } })).error, /Invalid arguments/);
+  assert.strictEqual((await tools.execute({ tool: 'fail', arguments: {} })).error, 'broken');
+  assert.match((await tools.execute(call, ['fail'])).error, /Unknown tool/);
+});
+
+test('runAgent feeds tool results back until a plain answer', () => {
+  const responder = message => message.message.includes('Tool results so far')
+    ? 'The sum is 5.'
+    : '{"tool": "add", "arguments": {"a": 2, "b": 3}}';
+  return withSimulator({ responder }, async () => {
+    const messaging = new sdk.R1Messaging();
+    messaging.registerTool({
+      name: 'add',
+      description: 'Add two numbers',
+      parameters: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } } },
+      handler: ({ a, b }) => a + b
+    });
+
+    const result = await messaging.runAgent('What is 2 + 3?');
+    assert.strictEqual(result.stopReason, 'answer');
+    assert.strictEqual(result.answer, 'The sum is 5.');
+    assert.deepStrictEqual(result.steps.map(step => step.result), [5]);
+  });
+});
+
+test('Offline queue drops messages after maxAttempts and never queues requests', async () => {
+  globalThis.window = new EventTarget();
+  const messaging = new sdk.R1Messaging();
+  const dropped = [];
+  try {
+    const queue = await messaging.enableQueue({ persist: false, baseDelay: 1, maxAttempts: 3, onDrop: item => dropped.push(item) });
+    await assert.rejects(messaging.request('ping', { useLLM: true }), error => error.code === 'unavailable');
+    assert.strictEqual(queue.size, 0);
+
+    await messaging.sendMessage('hello');
+    await sleep(50);
+    assert.strictEqual(queue.size, 0);
+    assert.deepStrictEqual(dropped.map(item => [item.payload.message, item.attempts]), [['hello', 3]]);
+  } finally {
+    messaging.disableQueue();
+    delete globalThis.window;
+  }
+});
+
+test('Recorded request round trips replay with the new request ids', async () => {
+  const responder = message => `Echo: ${message.message}`;
+  const trace = await withSimulator({ responder }, async () => {
+    const messaging = new sdk.R1Messaging();
+    const recorder = new sdk.BridgeRecorder(globalThis.window);
+    recorder.start();
+    await messaging.askLLMAndWait('first');
+    await messaging.askLLMAndWait('second');
+    return recorder.stop();
+  });
+  await sleep(5);
+
+  await withSimulator({}, async simulator => {
+    const messaging = new sdk.R1Messaging();
+    const player = new sdk.TracePlayer(trace, simulator);
+    const first = messaging.askLLMAndWait('first', { timeout: 1000 });
+    const second = messaging.askLLMAndWait('second', { timeout: 1000 });
+    assert.notStrictEqual(simulator.sentMessages[0].pluginId, player.getExpectedMessages()[0].pluginId);
+
+    player.runAll();
+    assert.strictEqual((await first).message, 'Echo: first');
+    assert.strictEqual((await second).message, 'Echo: second');
+    assert.deepStrictEqual(player.verify(), []);
+  });
+});
+
+test('Response cache normalizes keys, expires entries and evicts the least recently used', () => withSimulator({}, async simulator => {
+  const { createKey } = sdk.ResponseCache;
+  assert.strictEqual(createKey('  What is   the time? '), createKey('What is the time?'));
+  assert.notStrictEqual(createKey('What is the time?'), createKey('What is the time?', { useLLM: true }));
+  assert.notStrictEqual(createKey('Describe', { imageBase64: 'aaa' }), createKey('Describe', { imageBase64: 'bbb' }));
+
+  let indexWrites = 0;
+  const setItem = simulator.storage.plain.setItem.bind(simulator.storage.plain);
+  simulator.storage.plain.setItem = (key, value) => {
+    if (key.includes('llm_cache_index')) indexWrites++;
+    return setItem(key, value);
+  };
+
+  const reply = message => ({ message });
+  const cache = new sdk.ResponseCache(new sdk.R1Storage(), { maxEntries: 2 });
+  await cache.set('short', reply('short'), { ttl: 10 });
+  await cache.set('stale', reply('stale'), { ttl: 10, staleWhileRevalidate: 1000 });
+  await sleep(20);
+  assert.strictEqual(await cache.get('short'), null);
+  assert.deepStrictEqual(await cache.get('stale'), { response: reply('stale'), stale: true });
+
+  await cache.clear();
+  await cache.set('a', reply('a'));
+  await sleep(2);
+  await cache.set('b', reply('b'));
+  await sleep(2);
+  const writes = indexWrites;
+  assert.ok(await cache.get('a'));
+  assert.strictEqual(indexWrites, writes);
+
+  await cache.set('c', reply('c'));
+  assert.strictEqual(await cache.get('b'), null);
+  assert.ok(await cache.get('a'));
+  assert.strictEqual(cache.stats().entries, 2);
+
+  const reopened = new sdk.ResponseCache(new sdk.R1Storage(), { maxEntries: 2 });
+  await reopened.load();
+  assert.deepStrictEqual((await reopened.get('c')).response, reply('c'));
+}));
+
+test('Web search normalizes SERP replies and pages through results', async () => {
+  const wrapped = sdk.SearchParser.parse({ message: JSON.stringify({
+    data: {
+      answer_box: { answer: '42', link: 'https://example.com/answer' },
+      organic_results: [{ title: 'First', link: 'https://a.example', snippet: 'A' }, { nothing: true }, { url: 'https://b.example' }]
+    }
+  }) }, 'question', 2);
+  assert.deepStrictEqual(wrapped.results, [
+    { title: 'First', url: 'https://a.example', snippet: 'A', position: 11 },
+    { title: 'https://b.example', url: 'https://b.example', snippet: '', position: 12 }
+  ]);
+  assert.deepStrictEqual(wrapped.answerBox, { title: undefined, answer: '42', snippet: undefined, url: 'https://example.com/answer' });
+
+  const responder = ({ message }) => {
+    const { query, page = 1 } = JSON.parse(message);
+    return JSON.stringify({ results: [{ title: `${query} ${page}`, url: `https://example.com/${page}` }] });
+  };
+  await withSimulator({ responder }, async simulator => {
+    const search = new sdk.WebSearch(new sdk.R1Messaging());
+    const first = await search.search('coffee', { useLocation: true });
+    const second = await search.nextPage(first);
+    const refined = await search.refine(second, 'open now');
+
+    assert.deepStrictEqual(second.results, [{ title: 'coffee 2', url: 'https://example.com/2', snippet: '', position: 11 }]);
+    assert.strictEqual(refined.results[0].title, 'coffee open now 1');
+    assert.deepStrictEqual(simulator.sentMessages.map(sent => [sent.useSerpAPI, JSON.parse(sent.message)]), [
+      [true, { query: 'coffee', useLocation: true, tag: 'search' }],
+      [true, { query: 'coffee', useLocation: true, tag: 'search', page: 2 }],
+      [true, { query: 'coffee open now', useLocation: true, tag: 'search' }]
+    ]);
+  });
+});
+
+// Minimal DOM canvas whose JPEG size scales with pixel count and quality
+class FakeCanvas {
+  constructor(width = 0, height = 0) {
+    this.width = width;
+    this.height = height;
+  }
+
+  getContext() {
+    return { drawImage() {}, getImageData: (x, y, w, h) => ({ data: new Uint8ClampedArray(w * h * 4) }), putImageData() {} };
+  }
+
+  toDataURL(type, quality) {
+    return `data:${type};base64,${'A'.repeat(Math.round(this.width * this.height * quality / 10))}`;
+  }
+}
+
+test('Images are compressed to the byte budget before being asked about', async () => {
+  Object.assign(globalThis, {
+    HTMLVideoElement: class {},
+    HTMLCanvasElement: FakeCanvas,
+    document: { createElement: () => new FakeCanvas() }
+  });
+  try {
+    const photo = new FakeCanvas(1000, 500);
+    const compressed = await sdk.MediaUtils.compressImage(photo, { maxBytes: 4000 });
+    assert.deepStrictEqual(
+      [compressed.width, compressed.height, compressed.quality, compressed.bytes],
+      [360, 180, 0.6, 3888]
+    );
+    await assert.rejects(sdk.MediaUtils.compressImage(photo, { maxBytes: 10 }), /Unable to compress image under 10 bytes/);
+
+    await withSimulator({ responder: () => 'A red mug' }, async simulator => {
+      const helpers = new sdk.LLMHelpers(new sdk.R1Messaging());
+      const answer = await helpers.askAboutImage('What is this?', { image: photo, maxBytes: 4000, grayscale: true });
+      assert.strictEqual(answer.message, 'A red mug');
+      assert.strictEqual(simulator.sentMessages[0].useLLM, true);
+      assert.strictEqual(simulator.sentMessages[0].imageBase64.length, 3888);
+    });
+  } finally {
+    delete globalThis.HTMLVideoElement;
+    delete globalThis.HTMLCanvasElement;
+    delete globalThis.document;
+  }
+});
+
+test('Push-to-talk transcribes a held press and answers without the cache', () => withSimulator({ responder: () => 'It is sunny' }, async simulator => {
+  const messaging = new sdk.R1Messaging();
+  const cache = await messaging.enableCache({ persist: false });
+  const microphone = {
+    startRecording: async () => {},
+    stopRecording: async () => new Blob(['audio']),
+    stop() {},
+    getRecordingState: () => 'inactive'
+  };
+  const hardware = { on() {}, off() {} };
+  const transcribed = [];
+  const transcribe = async audio => {
+    transcribed.push(await audio.text());
+    return '  What is the weather?  ';
+  };
+
+  const voice = new sdk.PushToTalk(messaging, microphone, hardware, { minDuration: 0, useSpeechRecognition: false, transcribe });
+  const states = [];
+  const replies = [];
+  voice.on('state', state => states.push(state));
+  voice.on('response', response => replies.push(response.message));
+  await voice.press();
+  await voice.release();
+
+  assert.deepStrictEqual(transcribed, ['audio']);
+  assert.deepStrictEqual(states, ['listening', 'thinking', 'speaking']);
+  assert.deepStrictEqual(replies, ['It is sunny']);
+  assert.strictEqual(simulator.sentMessages[0].message, 'What is the weather?');
+  assert.strictEqual(simulator.sentMessages[0].wantsR1Response, true);
+  assert.strictEqual(cache.stats().entries, 0);
+
+  const cancelled = [];
+  voice.on('cancel', reason => cancelled.push(reason));
+  voice.enable({ minDuration: 60000 });
+  await voice.press();
+  await voice.release();
+  assert.deepStrictEqual(cancelled, ['too-short']);
+  assert.strictEqual(voice.getState(), 'idle');
+  voice.disable();
+
+  // Schema retries keep cache: false instead of storing the corrected reply
+  let schemaReplies = 0;
+  simulator.setResponder(() => ++schemaReplies === 1 ? 'not json' : '{"ok": true}');
+  const schema = { type: 'object', properties: { ok: { type: 'boolean' } } };
+  assert.deepStrictEqual(await messaging.askLLMJSON('Status?', { schema, cache: false }), { ok: true });
+  assert.strictEqual(cache.stats().entries, 0);
+}));
+
+test('Reserved storage keys are rejected', async () => {
+  const storage = new sdk.StorageWrapper(new sdk.MemoryStorage(), storageOptions);
+  const notes = new sdk.NamespacedStorage(storage, 'notes');
+  await notes.setItem('a', 1);
+
+  await assert.rejects(notes.setItem('__keys', ['b']), /reserved/);
+  await assert.rejects(storage.setItem('ttl_index', {}), /reserved/);
+  await assert.rejects(storage.removeItem('tx_journal'), /reserved/);
+  await assert.rejects(storage.setRaw('schema_version', 'AA=='), /reserved/);
+  assert.deepStrictEqual(await notes.keys(), ['a']);
+});
+
+test('Migrations stage binary and structured values without a JSON round trip', async () => {
+  const storage = new sdk.StorageWrapper(new sdk.MemoryStorage(), storageOptions);
+  const seen = {};
+  const migrator = new sdk.StorageMigrator(() => storage).register(1, async ({ setItem }) => {
+    await setItem('photo', new Blob(['jpeg'], { type: 'image/jpeg' }));
+    await setItem('when', new Date(0));
+    await setItem('tags', new Map([['a', 1]]));
+    await setItem('profile', { name: 'Ada' });
+  }).register(2, async ({ getItem }) => {
+    seen.photo = await getItem('photo');
+    seen.when = await getItem('when');
+    seen.tags = await getItem('tags');
+    seen.profile = await getItem('profile', false);
+  });
+  await migrator.migrate();
+
+  assert.ok(seen.photo instanceof Blob);
+  assert.ok(seen.when instanceof Date);
+  assert.deepStrictEqual(seen.tags, new Map([['a', 1]]));
+  assert.strictEqual(seen.profile, '{"name":"Ada"}');
+
+  const photo = await storage.getItem('photo');
+  assert.ok(photo instanceof Blob);
+  assert.strictEqual(await photo.text(), 'jpeg');
+  assert.strictEqual(photo.type, 'image/jpeg');
+});
+
+test('Codec round trips chunked, checksummed and gzipped values', async () => {
+  const memory = new sdk.MemoryStorage();
+  const storage = new sdk.StorageWrapper(memory, { ...storageOptions, compress: true, compressThreshold: 16 });
+  const text = 'Grüße, 世界 🎉 '.repeat(300);
+  const chunks = async key => (await memory.keys()).filter(stored => stored.startsWith(`${key}__chunk_`)).sort();
+
+  await storage.setItem('greeting', { text });
+  assert.deepStrictEqual(await storage.getItem('greeting'), { text });
+  const parts = await chunks('greeting');
+  assert.ok(parts.length > 1);
+  const payload = (await Promise.all(parts.map(key => memory.getItem(key)))).join('');
+  assert.ok(payload.startsWith('r1:{"t":"gzip"'));
+
+  // Without compression the encoded text is chunked as is
+  storage.configure({ compress: false });
+  await storage.setItem('plain', 'ünïcödé ✓');
+  assert.strictEqual(await storage.getItem('plain', false), 'ünïcödé ✓');
+  assert.ok((await chunks('plain')).length > 1);
+
+  const bytes = new Uint8Array([0, 1, 254, 255]);
+  await storage.setItem('bytes', bytes);
+  assert.deepStrictEqual(await storage.getItem('bytes'), bytes);
+
+  await memory.setItem(parts[0], `x${(await memory.getItem(parts[0])).slice(1)}`);
+  await assert.rejects(storage.getItem('greeting'), error => error.name === 'StorageIntegrityError' && /Checksum/.test(error.message));
+  await memory.removeItem(parts[1]);
+  await assert.rejects(storage.getItem('greeting'), /Chunk 1 of "greeting" is missing/);
+
+  // A shorter value leaves no stale chunks behind
+  await storage.setItem('greeting', 'short');
+  assert.deepStrictEqual(await chunks('greeting'), []);
+});
+
+test('Stores hydrate, debounce writes and notify selectors only on change', async () => {
+  const memory = new FlakyStorage();
+  const storage = new sdk.StorageWrapper(memory, storageOptions);
+  await storage.setItem('settings', { count: 5 });
+  let writes = 0;
+  memory.failWhen = key => key === 'settings' && ++writes < 0;
+
+  const store = new sdk.PersistedStore(() => storage, { count: 0, theme: 'dark' }, { key: 'settings', debounce: 10 });
+  await store.ready;
+  assert.deepStrictEqual(store.get(), { count: 5, theme: 'dark' });
+
+  let combined = 0;
+  const label = store.select([state => state.count, state => state.theme], (count, theme) => {
+    combined++;
+    return `${theme}:${count}`;
+  });
+  const labels = [];
+  label.subscribe(value => labels.push(value));
+  const parity = [];
+  store.select(state => state.count % 2).subscribe(value => parity.push(value));
+
+  store.update(state => ({ ...state, count: 6 }));
+  store.update(state => ({ ...state, count: 8 }));
+  store.update(state => ({ ...state }));
+  store.update(state => ({ ...state, theme: 'light' }));
+  assert.deepStrictEqual(labels, ['dark:6', 'dark:8', 'light:8']);
+  assert.deepStrictEqual(parity, [0]);
+  assert.strictEqual(combined, 4);
+  assert.strictEqual(writes, 0);
+
+  await sleep(30);
+  assert.strictEqual(writes, 1);
+  const reopened = new sdk.PersistedStore(() => storage, { count: 0, theme: 'dark', volume: 3 }, { key: 'settings' });
+  await reopened.ready;
+  assert.deepStrictEqual(reopened.get(), { count: 8, theme: 'light', volume: 3 });
+  await store.dispose();
+  await reopened.dispose();
+});
+
+test('Backups include keys written before recording and roll back failed imports', () => withSimulator({}, async simulator => {
+  // Data written by an older version, straight to the host without key recording
+  const legacy = new sdk.StorageWrapper(simulator.storage.plain, storageOptions);
+  await new sdk.NamespacedStorage(legacy, 'notes').setItem('long', 'a value long enough to be chunked');
+  await new sdk.Collection(legacy, 'tasks').insert({ id: 't1', title: 'Old task' });
+  await legacy.setItem('session', 'abc', { ttl: 60000 });
+
+  const storage = new sdk.R1Storage();
+  storage.namespace('notes');
+  storage.collection('tasks');
+  const bundle = await storage.exportBackup();
+  const keys = bundle.stores.plain.map(entry => entry.key);
+  ['notes:__keys', 'notes:long', 'notes:long__chunk_0', 'col:tasks:ids', 'col:tasks:doc:t1', 'session', 'ttl_index']
+    .forEach(key => assert.ok(keys.includes(key), key));
+
+  await storage.namespace('notes').setItem('long', 'changed');
+  await storage.plain.setItem('extra', 1);
+  const { removed } = await storage.importBackup(JSON.stringify(bundle), { strategy: 'replace' });
+  assert.ok(removed >= 1);
+  assert.strictEqual(await storage.plain.getItem('extra'), null);
+  assert.strictEqual(await storage.namespace('notes').getItem('long', false), 'a value long enough to be chunked');
+
+  await storage.namespace('notes').setItem('long', 'kept');
+  const setItem = simulator.storage.plain.setItem.bind(simulator.storage.plain);
+  simulator.storage.plain.setItem = (key, value) => key === 'session' ? Promise.reject(new Error('Quota exceeded')) : setItem(key, value);
+  await assert.rejects(storage.importBackup(bundle), error => error.name === 'BackupError' && error.reason === 'restore-failed');
+  simulator.storage.plain.setItem = setItem;
+  assert.strictEqual(await storage.namespace('notes').getItem('long', false), 'kept');
+}));
+
+test('Gesture recognizer starts from a fresh pose after stop and start', () => {
+  const accelerometer = { subscribe: () => () => {} };
+  const gestures = new sdk.GestureRecognizer(accelerometer);
+  const seen = [];
+  gestures.on('gesture', gesture => seen.push(gesture.direction ? `${gesture.type}:${gesture.direction}` : `${gesture.type}:${gesture.face}`));
+  const hold = (sample, from, to) => {
+    for (let time = from; time <= to; time += 50) gestures.process(sample, time);
+  };
+
+  gestures.start();
+  hold({ x: 0, y: 0, z: 1 }, 0, 400);
+  hold({ x: 0.7, y: 0, z: 0.7 }, 500, 1100);
+  assert.deepStrictEqual(seen, ['tilt:right']);
+
+  gestures.stop();
+  gestures.start();
+  // Lying face down after the restart is the new starting pose, and the old tilt is forgotten
+  hold({ x: 0, y: 0, z: -1 }, 5000, 5400);
+  hold({ x: 0.7, y: 0, z: 0.7 }, 5500, 6100);
+  assert.deepStrictEqual(seen, ['tilt:right', 'tilt:right']);
+  gestures.stop();
+});
+
+test('Resampler pauses when input stops and motion splits gravity with a high-pass filter', async () => {
+  const emitted = [];
+  const resampler = new sdk.Resampler(50, (data, timestamp) => emitted.push([data.x, timestamp]));
+  [0, 40, 80].forEach(time => resampler.push({ x: time / 40, y: 0, z: 1 }, time));
+  resampler.tick(80);
+  resampler.tick(180);
+  resampler.tick(200);
+  assert.deepStrictEqual(emitted, [[1.5, 60], [2, 160]]);
+
+  let handler;
+  const accelerometer = { subscribe: callback => { handler = callback; return () => {}; } };
+  const motion = new sdk.MotionProcessor(accelerometer, () => null);
+  const readings = [];
+  await motion.start(data => readings.push(data), { calibrated: false, rate: 100 });
+  handler({ x: 0, y: 0, z: 1 });
+  await sleep(40);
+  handler({ x: 0.5, y: 0, z: 1 });
+  await sleep(150);
+  const count = readings.length;
+  await sleep(100);
+  motion.stop();
+
+  assert.ok(count > 0);
+  assert.strictEqual(readings.length, count);
+  const first = readings[0];
+  assert.deepStrictEqual([first.linear, first.gravity], [{ x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 1 }]);
+  const moved = readings[readings.length - 1];
+  assert.ok(moved.linear.x > 0.3);
+  assert.ok(Math.abs(moved.gravity.x + moved.linear.x - moved.x) < 1e-9);
+});
+
+test('Accelerometer frequency changes keep a simulator script playing', () => withSimulator({}, async simulator => {
+  const accelerometer = new sdk.AccelerometerAPI();
+  const received = [];
+  const unsubscribe = accelerometer.subscribe(data => received.push(data.x));
+  const samples = [1, 2, 3, 4, 5].map(x => ({ x, y: 0, z: 1 }));
+  const playing = simulator.accelerometer.play(samples, { interval: 5 });
+
+  // A faster subscriber restarts the host sensor at the new frequency
+  const unsubscribeFast = accelerometer.subscribe(() => {}, { frequency: 100 });
+  assert.strictEqual(simulator.accelerometer.getFrequency(), 100);
+  await playing;
+  assert.deepStrictEqual(received, [1, 2, 3, 4, 5]);
+
+  unsubscribeFast();
+  unsubscribe();
+  const cancelled = simulator.accelerometer.play(samples, { interval: 5, loop: true });
+  simulator.accelerometer.stop();
+  await cancelled;
+}));
+
+test('Scroll wheel accelerates fast spins and coasts with momentum', async () => {
+  const hardware = { on() {}, off() {} };
+  const wheel = new sdk.ScrollWheel(hardware, { momentum: false, sensitivity: 0.5 });
+  const steps = [];
+  const motions = [];
+  wheel.on('step', step => steps.push(step.steps));
+  wheel.on('motion', motion => motions.push(motion));
+
+  // Slow ticks are not accelerated, so two half steps make one step
+  [0, 500, 1000, 1500].forEach(time => wheel.tick('down', time));
+  assert.deepStrictEqual(motions.map(motion => motion.multiplier), [1, 1, 1, 1]);
+  assert.deepStrictEqual(steps, [1, 1]);
+
+  // Ten ticks at 40 per second hit the multiplier cap
+  for (let i = 0; i < 10; i++) wheel.tick('down', 10000 + i * 25);
+  const fastest = motions[motions.length - 1];
+  assert.strictEqual(fastest.velocity, 40);
+  assert.strictEqual(fastest.multiplier, 8);
+  assert.strictEqual(fastest.delta, 4);
+
+  // Reversing drops the speed
+  wheel.tick('up', 10250);
+  assert.deepStrictEqual([motions[motions.length - 1].velocity, motions[motions.length - 1].delta], [0, -0.5]);
+
+  const curves = ['none', 'linear', 'quadratic', 'exponential', velocity => velocity / 3]
+    .map(curve => new sdk.ScrollWheel(hardware, { curve }))
+    .map(curved => [curved.getMultiplier(18), curved.getMultiplier(6)]);
+  assert.deepStrictEqual(curves, [[1, 1], [3, 1], [5, 1], [4, 1], [6, 2]]);
+
+  const coasting = new sdk.ScrollWheel(hardware, { momentumDelay: 0, friction: 0.0001 });
+  const coasted = [];
+  let ended = 0;
+  coasting.on('motion', motion => { if (motion.momentum) coasted.push(motion.delta); });
+  coasting.on('momentumEnd', () => ended++);
+  const now = Date.now();
+  for (let i = 0; i < 10; i++) coasting.tick('up', now - 250 + i * 25);
+  await sleep(600);
+  assert.ok(coasted.length > 0 && coasted.every(delta => delta < 0));
+  assert.strictEqual(ended, 1);
+  assert.strictEqual(coasting.getVelocity(), 0);
+});
+
+test('Side button clicks are grouped into single, double and triple clicks by timing', async () => {
+  const events = [];
+  const listening = new Set(['singleClick']);
+  const patterns = new sdk.SideButtonPatterns(event => events.push(event), event => listening.has(event));
+  patterns.configure({ clickWindow: 40 });
+  const clicks = async (...gaps) => {
+    patterns.click();
+    for (const gap of gaps) {
+      await sleep(gap);
+      patterns.click();
+    }
+  };
+
+  // Without multi-click listeners a single click is reported straight away
+  await clicks();
+  assert.deepStrictEqual(events.splice(0), ['singleClick']);
+
+  listening.add('doubleClick');
+  await clicks();
+  assert.deepStrictEqual(events, []);
+  await sleep(80);
+  await clicks(10);
+  assert.deepStrictEqual(events.splice(0), ['singleClick', 'doubleClick']);
+
+  listening.add('tripleClick');
+  await clicks(10, 10);
+  await clicks(10);
+  await sleep(80);
+  await clicks(80);
+  await sleep(80);
+  assert.deepStrictEqual(events.splice(0), ['tripleClick', 'doubleClick', 'singleClick', 'singleClick']);
+
+  // A long press ends a pending click sequence
+  await clicks();
+  patterns.pressStart();
+  patterns.pressEnd();
+  assert.deepStrictEqual(events, ['singleClick', 'holdEnd']);
+});
+
+(async () => {
+  console.log('\n✅ Test 7: Behavior');
+  let failed = 0;
+  for (const { name, fn } of behaviorTests) {
+    try {
+      await fn();
+      console.log(`   - ${name}: OK`);
+    } catch (error) {
+      failed++;
+      console.log(`   - ${name}: FAILED`);
+      console.error(error);
+    }
+  }
+
+  if (failed > 0) {
+    console.log(`\n❌ ${failed} behavior test(s) failed.`);
+    process.exit(1);
+  }
+
+  console.log('\n🎉 All tests passed! R1 SDK is ready for use.');
+  console.log('\n📖 Quick start:');
+  console.log('   npm install r1-create');
+  console.log('   import { r1 } from "r1-create";');
+  console.log('   await r1.initialize();');
+})();